@@ -0,0 +1,30 @@
+// Regenerate the "Supported Licenses" table in README.md from the built-in
+// catalog. Run after `npm run build`: npm run readme
+
+import { execFileSync } from "child_process";
+import { readFileSync, writeFileSync } from "fs";
+
+const START = "<!-- licenses:start -->";
+const END = "<!-- licenses:end -->";
+
+const table = execFileSync(
+  process.execPath,
+  ["dist/cli.js", "--list", "--markdown"],
+  { encoding: "utf-8" }
+);
+
+const readme = readFileSync("README.md", "utf-8");
+const start = readme.indexOf(START);
+const end = readme.indexOf(END);
+if (start === -1 || end < start) {
+  console.error(`README.md has no ${START} ... ${END} block`);
+  process.exit(1);
+}
+
+writeFileSync(
+  "README.md",
+  readme.substring(0, start + START.length) +
+    "\n" +
+    table +
+    readme.substring(end)
+);
@@ -0,0 +1,385 @@
+// ── Audit ───────────────────────────────────────────────────────────────────
+//
+// Cross-check every place a project declares its license: the LICENSE files,
+// package.json, the README's license section and the SPDX source headers.
+
+import * as fs from "fs";
+import * as path from "path";
+import { LicenseFileMatch, detectLicenses } from "./detect";
+import { glob } from "./glob";
+import { parseHeader } from "./headers";
+import { LICENSES, LICENSE_ALIASES, LicenseInfo } from "./licenses";
+import { updateManifest } from "./manifests";
+import {
+  expressionTerms,
+  parseExpression,
+  resolveExpression,
+  sameExpression,
+} from "./expression";
+
+export type AuditSource = "license-file" | "package.json" | "readme" | "headers";
+
+export interface AuditFinding {
+  source: AuditSource;
+  /** File the license was read from, or null when there is none. */
+  file: string | null;
+  /** SPDX identifier declared there, or null when none could be read. */
+  spdx: string | null;
+  /** For headers: every file carrying this identifier. */
+  files?: string[];
+  /** Whether this agrees with the expected license. */
+  ok: boolean;
+  /** Set when `fix` rewrote the file to match. */
+  fixed?: boolean;
+  message: string;
+}
+
+export interface AuditResult {
+  /** SPDX identifier everything is compared against, if one was found. */
+  expected: string | null;
+  /** Where `expected` came from. */
+  basis: "given" | "license-file" | "package.json" | null;
+  findings: AuditFinding[];
+  /** Findings that disagree and weren't fixed. */
+  mismatches: number;
+}
+
+export interface AuditOptions {
+  /** SPDX identifier the project should use. Default: the LICENSE file's. */
+  expected?: string;
+  /** Header globs to scan. Default every file in `cwd`. */
+  headers?: string[];
+  /** Rewrite package.json's `license` field to the expected identifier. */
+  fix?: boolean;
+  catalog?: Record<string, LicenseInfo>;
+}
+
+const README_FILE = /^readme(?:\.(?:md|markdown|rst|txt))?$/i;
+
+/** "License", "Licensing" or "📝 License:", with nothing else in the title. */
+const LICENSE_TITLE = /^(?:[^\w\s]+\s*)?licen[cs](?:e|ing)\s*:?\s*#*\s*$/i;
+
+const ATX_HEADING = /^(#{1,6})\s+/;
+
+/** An SPDX expression, to tell real tags from prose that mentions one. */
+const SPDX_EXPRESSION = /^[A-Za-z0-9.+:()-]+(?:\s+[A-Za-z0-9.+:()-]+)*$/;
+
+/** "SEE LICENSE IN <file>", npm's value for licenses without an identifier. */
+export const SEE_LICENSE = /^SEE LICEN[CS]E IN\s+(\S+)/i;
+
+/**
+ * The catalog's spelling of an identifier or expression: "mit" becomes
+ * "MIT", and deprecated bare IDs such as "GPL-3.0" become "GPL-3.0-only".
+ * Anything outside the catalog is returned as given.
+ */
+function canonicalSpdx(
+  spdx: string,
+  catalog: Record<string, LicenseInfo>
+): string {
+  try {
+    return resolveExpression(spdx, catalog).spdx;
+  } catch {
+    return spdx.trim();
+  }
+}
+
+/** What a license file declares: "X WITH Y" when it includes an exception. */
+export function fileLicense(match: LicenseFileMatch): string | null {
+  if (match.spdx === null) return match.expression;
+  return match.exception ? `${match.spdx} WITH ${match.exception}` : match.spdx;
+}
+
+/** Whether `spdx` is one of the licenses `expression` combines. */
+function licenseOf(
+  spdx: string,
+  expression: string,
+  catalog: Record<string, LicenseInfo>
+): boolean {
+  try {
+    return expressionTerms(parseExpression(expression)).some((term) =>
+      sameExpression(term.id, spdx, catalog)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** The license declared in package.json, including the legacy object forms. */
+export function packageLicense(pkg: Record<string, unknown>): string | null {
+  const license = pkg.license;
+  if (typeof license === "string" && license.trim()) return license;
+  if (license && typeof (license as { type?: unknown }).type === "string") {
+    return (license as { type: string }).type;
+  }
+  const legacy = pkg.licenses;
+  if (Array.isArray(legacy)) {
+    const types = legacy
+      .map((entry) => (entry as { type?: unknown })?.type)
+      .filter((type): type is string => typeof type === "string");
+    if (types.length > 0) return types.join(" OR ");
+  }
+  return null;
+}
+
+/**
+ * Body of the README's "License" section: from a "License" or "Licensing"
+ * heading (ATX or underlined) to the next heading at the same level or above.
+ */
+function readmeSection(text: string): string | null {
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    let level = 0;
+    let start = i + 1;
+    const atx = ATX_HEADING.exec(lines[i]);
+    if (atx && LICENSE_TITLE.test(lines[i].substring(atx[0].length))) {
+      level = atx[1].length;
+    } else if (
+      LICENSE_TITLE.test(lines[i]) &&
+      /^(?:=+|-+)\s*$/.test(lines[i + 1] ?? "")
+    ) {
+      level = lines[i + 1].startsWith("=") ? 1 : 2;
+      start = i + 2;
+    }
+    if (!level) continue;
+
+    let end = start;
+    while (end < lines.length) {
+      const heading = ATX_HEADING.exec(lines[end]);
+      if (heading && heading[1].length <= level) break;
+      // An underlined heading: "===" is level 1, "---" level 2
+      const underline = /^(=+|-+)\s*$/.exec(lines[end + 1] ?? "");
+      const underlined = underline && lines[end].trim() !== "";
+      if (underlined && (level === 2 || underline[1][0] === "=")) break;
+      end++;
+    }
+    return lines.slice(start, end).join("\n");
+  }
+  return null;
+}
+
+function phrase(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(
+    (word) => word !== "version"
+  );
+}
+
+/**
+ * Licenses named in a block of prose, by SPDX identifier, catalog name or
+ * deprecated ID. A mention inside a longer one ("MIT" in "MIT-0") doesn't
+ * count on its own.
+ */
+function mentionedLicenses(
+  text: string,
+  catalog: Record<string, LicenseInfo>
+): string[] {
+  const words = phrase(text);
+  const names: [string[], string][] = [];
+  for (const info of Object.values(catalog)) {
+    names.push([phrase(info.spdx), info.spdx], [phrase(info.name), info.spdx]);
+  }
+  for (const [alias, id] of Object.entries(LICENSE_ALIASES)) {
+    names.push([phrase(alias), LICENSES[id].spdx]);
+  }
+
+  const spans: { start: number; end: number; spdx: string }[] = [];
+  for (const [name, spdx] of names) {
+    if (name.length === 0) continue;
+    for (let i = 0; i + name.length <= words.length; i++) {
+      if (name.every((word, j) => words[i + j] === word)) {
+        spans.push({ start: i, end: i + name.length, spdx });
+      }
+    }
+  }
+
+  const found = spans.filter(
+    (span) =>
+      !spans.some(
+        (other) =>
+          other.spdx !== span.spdx &&
+          other.start <= span.start &&
+          other.end >= span.end &&
+          other.end - other.start > span.end - span.start
+      )
+  );
+  return [...new Set(found.map((span) => span.spdx))];
+}
+
+/**
+ * Compare the license declared by the LICENSE files, package.json, the
+ * README and SPDX headers in `cwd` against the expected one.
+ */
+export function auditLicenses(
+  cwd = process.cwd(),
+  options: AuditOptions = {}
+): AuditResult {
+  const catalog = options.catalog ?? LICENSES;
+  const findings: AuditFinding[] = [];
+  const same = (spdx: string | null, expected: string | null) =>
+    spdx !== null &&
+    expected !== null &&
+    sameExpression(spdx, expected, catalog);
+  // A LICENSE-MIT next to a "MIT OR Apache-2.0" summary is fine
+  const partOf = (spdx: string | null, expected: string | null) =>
+    same(spdx, expected) ||
+    (spdx !== null && expected !== null && licenseOf(spdx, expected, catalog));
+
+  const matches = detectLicenses(cwd, catalog);
+
+  const pkgFile = path.join(cwd, "package.json");
+  let pkg: Record<string, unknown> | null = null;
+  let pkgInvalid = false;
+  if (fs.existsSync(pkgFile)) {
+    try {
+      pkg = JSON.parse(fs.readFileSync(pkgFile, "utf-8"));
+    } catch {
+      pkgInvalid = true;
+    }
+  }
+  const declared = pkg ? packageLicense(pkg) : null;
+  const seeFile = declared ? SEE_LICENSE.exec(declared)?.[1] : undefined;
+  const pkgSpdx =
+    declared && !seeFile ? canonicalSpdx(declared, catalog) : null;
+
+  let expected: string | null = null;
+  let basis: AuditResult["basis"] = null;
+  // A summary written for an expression speaks for the whole project
+  const identified =
+    matches.find((match) => match.spdx === null && match.expression) ??
+    matches.find((match) => match.spdx !== null);
+  if (options.expected) {
+    expected = canonicalSpdx(options.expected, catalog);
+    basis = "given";
+  } else if (identified) {
+    expected = canonicalSpdx(fileLicense(identified)!, catalog);
+    basis = "license-file";
+  } else if (pkgSpdx) {
+    expected = pkgSpdx;
+    basis = "package.json";
+  }
+
+  // LICENSE files
+  if (matches.length === 0) {
+    findings.push({
+      source: "license-file",
+      file: null,
+      spdx: null,
+      ok: false,
+      message: "no LICENSE file found",
+    });
+  }
+  for (const match of matches) {
+    const spdx = fileLicense(match);
+    const ok = partOf(spdx, expected);
+    let message = `${spdx} matches`;
+    if (spdx === null) {
+      message = `unidentified license${match.closest ? ` (closest: ${match.closest})` : ""}`;
+    } else if (!ok) {
+      message = `${spdx}, expected ${expected}`;
+    }
+    findings.push({
+      source: "license-file",
+      file: match.file,
+      spdx,
+      ok,
+      message,
+    });
+  }
+
+  // package.json
+  if (pkgInvalid) {
+    findings.push({
+      source: "package.json",
+      file: pkgFile,
+      spdx: null,
+      ok: false,
+      message: "not valid JSON",
+    });
+  } else if (pkg) {
+    // "SEE LICENSE IN <file>" is how npm declares a license without an ID
+    const ok = seeFile !== undefined || same(pkgSpdx, expected);
+    let message = "no license field";
+    if (seeFile) message = `points to ${seeFile}`;
+    else if (pkgSpdx !== null) {
+      message = ok ? `${pkgSpdx} matches` : `${pkgSpdx}, expected ${expected}`;
+    }
+    const finding: AuditFinding = {
+      source: "package.json",
+      file: pkgFile,
+      spdx: pkgSpdx,
+      ok,
+      message,
+    };
+    if (!ok && options.fix && expected) {
+      updateManifest(pkgFile, expected);
+      finding.fixed = true;
+      finding.message += ` (set to ${expected})`;
+    }
+    findings.push(finding);
+  }
+
+  // README license section
+  const readme = fs
+    .readdirSync(cwd)
+    .filter((name) => README_FILE.test(name))
+    .sort()[0];
+  const section = readme
+    ? readmeSection(fs.readFileSync(path.join(cwd, readme), "utf-8"))
+    : null;
+  if (readme && section !== null) {
+    const named = mentionedLicenses(section, catalog);
+    const wrong = named.filter((spdx) => !partOf(spdx, expected));
+    const ok = expected !== null ? wrong.length === 0 : true;
+    let message = "license section names no license";
+    if (named.length > 0) {
+      message = ok
+        ? `${named.join(", ")} matches`
+        : `names ${wrong.join(", ")}, expected ${expected}`;
+    }
+    findings.push({
+      source: "readme",
+      file: path.join(cwd, readme),
+      spdx: named.length > 0 ? named.join(" OR ") : null,
+      ok,
+      message,
+    });
+  }
+
+  // SPDX headers
+  const byIdentifier = new Map<string, string[]>();
+  const licenseFiles = new Set(matches.map((match) => match.file));
+  for (const file of glob(options.headers ?? ["**/*"], cwd)) {
+    if (licenseFiles.has(file)) continue;
+    let content: string;
+    try {
+      content = fs.readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+    const spdx = parseHeader(content).spdx;
+    if (spdx === null || !SPDX_EXPRESSION.test(spdx)) continue;
+    const key = canonicalSpdx(spdx, catalog);
+    byIdentifier.set(key, [...(byIdentifier.get(key) ?? []), file]);
+  }
+  for (const [spdx, files] of byIdentifier) {
+    const ok = same(spdx, expected);
+    const count = `${files.length} file${files.length !== 1 ? "s" : ""}`;
+    findings.push({
+      source: "headers",
+      file: null,
+      spdx,
+      files,
+      ok,
+      message: ok
+        ? `${count} with ${spdx}`
+        : `${count} with ${spdx}, expected ${expected}`,
+    });
+  }
+
+  return {
+    expected,
+    basis,
+    findings,
+    mismatches: findings.filter((finding) => !finding.ok && !finding.fixed)
+      .length,
+  };
+}
@@ -0,0 +1,1892 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline/promises";
+import { splitTopLevel } from "./glob";
+import { ConfigKey } from "./config";
+import {
+  AppliedHeaders,
+  AuditResult,
+  AuditSource,
+  Condition,
+  ConfigError,
+  Copyleft,
+  Dependency,
+  DependencyReport,
+  ExpressionError,
+  ExpressionFile,
+  ExpressionSummary,
+  LicenseFileMatch,
+  LicenseGenError,
+  LicenseSummary,
+  Limitation,
+  LoadedConfig,
+  ManifestChange,
+  ManifestError,
+  NOTICE_FORMATS,
+  NoticeFormat,
+  Permission,
+  ProjectConfig,
+  RenderedNotices,
+  RenderedSbom,
+  ReuseError,
+  ReuseLintResult,
+  SBOM_FORMATS,
+  SbomError,
+  SbomFormat,
+  TemplateError,
+  UnknownExceptionError,
+  UnknownLicenseError,
+  applyHeaders,
+  auditProject,
+  checkDependencies,
+  checkHeaders,
+  detectLicenseFiles,
+  expressionInfo,
+  holderDefaults,
+  licenseInfo,
+  lintProject,
+  listExceptions,
+  listLicenses,
+  loadConfig,
+  loadReuseToml,
+  renderExpression,
+  renderNoticeFile,
+  renderNotices,
+  renderSbom,
+  unifiedDiff,
+  updateManifests,
+} from "./index";
+
+// ── Colors ──────────────────────────────────────────────────────────────────
+
+const c = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  blue: "\x1b[34m",
+  magenta: "\x1b[35m",
+  cyan: "\x1b[36m",
+  white: "\x1b[37m",
+};
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type Command =
+  | "generate"
+  | "check"
+  | "info"
+  | "detect"
+  | "audit"
+  | "deps"
+  | "notices"
+  | "lint"
+  | "sbom";
+
+const COMMANDS: Command[] = [
+  "check",
+  "info",
+  "detect",
+  "audit",
+  "deps",
+  "notices",
+  "lint",
+  "sbom",
+];
+
+interface CliOptions {
+  command: Command;
+  license: string;
+  /** File or directory for detect, the project directory for lint. */
+  target: string;
+  /** Holder specs: "Name" or "2015-2018 Name". */
+  names: string[];
+  year: string;
+  output: string;
+  headers: string[];
+  exclude: string[];
+  headerStyle: Record<string, string>;
+  /** Directories of custom license templates. */
+  templates: string[];
+  updateHeaders: boolean;
+  fileYears: boolean;
+  /** Set the license in package.json and other manifests too. */
+  updateManifest: boolean;
+  /** Write an Apache-2.0 NOTICE file next to the LICENSE file. */
+  notice: boolean;
+  /** Write LICENSES/<id>.txt and ".license" sidecars, per the REUSE spec. */
+  reuse: boolean;
+  dryRun: boolean;
+  /** With audit, rewrite package.json's license to match. */
+  fix: boolean;
+  /** With deps, notices and sbom, include devDependencies. */
+  dev: boolean;
+  /** With sbom, list the installed dependencies as packages. */
+  dependencies: boolean;
+  /** The format for notices or sbom; "" to go by --output. */
+  format: string;
+  list: boolean;
+  /** Print --list as a Markdown table. */
+  markdown: boolean;
+  /** Restrict --list to licenses without copyleft. */
+  permissive: boolean;
+  /** Restrict --list to weak and strong copyleft licenses. */
+  copyleft: boolean;
+  help: boolean;
+  json: boolean;
+  force: boolean;
+  /** Config-file settings that were given on the command line. */
+  given: Set<ConfigKey>;
+}
+
+/** The NOTICE file as it is on disk (null if missing) and as regenerated. */
+interface NoticeChange {
+  file: string;
+  before: string | null;
+  after: string;
+}
+
+// ── CLI Parsing ─────────────────────────────────────────────────────────────
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = {
+    command: "generate",
+    license: "",
+    target: ".",
+    names: [],
+    year: "",
+    output: "LICENSE",
+    headers: [],
+    exclude: [],
+    headerStyle: {},
+    templates: [],
+    updateHeaders: false,
+    fileYears: false,
+    updateManifest: false,
+    notice: false,
+    reuse: false,
+    dryRun: false,
+    fix: false,
+    dev: false,
+    dependencies: false,
+    format: "",
+    list: false,
+    markdown: false,
+    permissive: false,
+    copyleft: false,
+    help: false,
+    json: false,
+    force: false,
+    given: new Set(),
+  };
+
+  const args = argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--help":
+      case "-h":
+        opts.help = true;
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--list":
+      case "-l":
+        opts.list = true;
+        break;
+      case "--markdown":
+        opts.markdown = true;
+        break;
+      case "--permissive":
+        opts.permissive = true;
+        break;
+      case "--copyleft":
+        opts.copyleft = true;
+        break;
+      case "--name":
+      case "-n":
+        if (args[i + 1]) opts.names.push(args[i + 1]);
+        i++;
+        opts.given.add("holders");
+        break;
+      case "--year":
+      case "-y":
+        opts.year = args[++i] || "";
+        opts.given.add("year");
+        break;
+      case "--output":
+      case "-o":
+        opts.output = args[++i] || "LICENSE";
+        opts.given.add("output");
+        break;
+      case "--headers":
+        opts.headers = splitTopLevel(args[++i] || "", ",").filter(Boolean);
+        opts.given.add("headers");
+        break;
+      case "--exclude":
+        opts.exclude = splitTopLevel(args[++i] || "", ",").filter(Boolean);
+        opts.given.add("exclude");
+        break;
+      case "--templates":
+        opts.templates = splitTopLevel(args[++i] || "", ",").filter(Boolean);
+        opts.given.add("templates");
+        break;
+      case "--update-headers":
+        opts.updateHeaders = true;
+        break;
+      case "--file-years":
+        opts.fileYears = true;
+        break;
+      case "--update-manifest":
+        opts.updateManifest = true;
+        opts.given.add("updateManifest");
+        break;
+      case "--notice":
+        opts.notice = true;
+        opts.given.add("notice");
+        break;
+      case "--reuse":
+        opts.reuse = true;
+        opts.given.add("reuse");
+        break;
+      case "--dry-run":
+        opts.dryRun = true;
+        break;
+      case "--fix":
+        opts.fix = true;
+        break;
+      case "--dev":
+        opts.dev = true;
+        break;
+      case "--dependencies":
+        opts.dependencies = true;
+        break;
+      case "--format":
+        opts.format = args[++i] || "";
+        break;
+      case "--force":
+      case "-f":
+        opts.force = true;
+        break;
+      default:
+        if (arg.startsWith("-")) break;
+        if (
+          opts.command === "generate" &&
+          !opts.license &&
+          COMMANDS.includes(arg as Command)
+        ) {
+          opts.command = arg as Command;
+        } else if (opts.command === "detect" || opts.command === "lint") {
+          opts.target = arg;
+        } else if (!opts.license) {
+          opts.license = arg;
+          opts.given.add("license");
+        }
+        break;
+    }
+  }
+
+  return opts;
+}
+
+// ── Help ────────────────────────────────────────────────────────────────────
+
+function showHelp(): void {
+  console.log(`
+${c.bold}${c.cyan}license-gen${c.reset} - Generate LICENSE files for any OSI-approved license
+
+${c.bold}USAGE${c.reset}
+  ${c.green}license-gen${c.reset} <license-id> [options]
+  ${c.green}license-gen${c.reset} "<spdx-expression>" [options]   ${c.dim}(e.g. "MIT OR Apache-2.0")${c.reset}
+  ${c.green}license-gen${c.reset}                  ${c.dim}(on a terminal: choose a license interactively)${c.reset}
+  ${c.green}license-gen check${c.reset} <license-id> --headers <globs> [--json]
+  ${c.green}license-gen info${c.reset} <license-id> [--json]
+  ${c.green}license-gen detect${c.reset} [path] [--json]
+  ${c.green}license-gen audit${c.reset} [license-id] [--fix] [--json]
+  ${c.green}license-gen deps${c.reset} [license-id] [--dev] [--json]
+  ${c.green}license-gen notices${c.reset} [--format text|markdown|html] [--output <file>]
+  ${c.green}license-gen lint${c.reset} [path] [--json]
+  ${c.green}license-gen sbom${c.reset} [license-id] [--format tag-value|json] [--dependencies]
+
+${c.bold}EXAMPLES${c.reset}
+  ${c.dim}# Generate MIT license (auto-detects name from git config)${c.reset}
+  license-gen mit
+
+  ${c.dim}# Generate Apache 2.0 with specific name${c.reset}
+  license-gen apache-2.0 --name "Jane Doe"
+
+  ${c.dim}# Several holders, one copyright line each${c.reset}
+  license-gen mit --name "Acme Corp and contributors" --name "2015-2018 Upstream Author"
+
+  ${c.dim}# Dual-license: LICENSE-MIT, LICENSE-APACHE and a LICENSE summary${c.reset}
+  license-gen "MIT OR Apache-2.0"
+
+  ${c.dim}# GPL with the Classpath exception appended to the LICENSE file${c.reset}
+  license-gen "GPL-2.0-or-later WITH Classpath-exception-2.0"
+
+  ${c.dim}# Generate GPL-3.0 ("or any later version") to a custom file${c.reset}
+  license-gen gpl-3.0-or-later --output COPYING
+
+  ${c.dim}# Apache 2.0 with a NOTICE file, including bundled dependencies' notices${c.reset}
+  license-gen apache-2.0 --notice
+
+  ${c.dim}# Add SPDX headers to source files${c.reset}
+  license-gen mit --headers "src/**/*.ts,src/**/*.js"
+
+  ${c.dim}# REUSE layout: LICENSES/MIT.txt, headers, and sidecars for images and JSON${c.reset}
+  license-gen mit --reuse --headers "**/*"
+
+  ${c.dim}# Verify SPDX headers in CI without touching files${c.reset}
+  license-gen check mit --headers "src/**/*.ts"
+
+  ${c.dim}# List all available licenses${c.reset}
+  license-gen --list
+
+  ${c.dim}# Identify the LICENSE/COPYING files already in a project${c.reset}
+  license-gen detect
+
+  ${c.dim}# Do LICENSE, package.json, README and headers agree? Fix package.json${c.reset}
+  license-gen audit --fix
+
+  ${c.dim}# Can we ship our dependencies under our license? Exits 1 if not${c.reset}
+  license-gen deps
+
+  ${c.dim}# Does every file have licensing info, per the REUSE spec? Exits 1 if not${c.reset}
+  license-gen lint
+
+  ${c.dim}# Attribution for bundled dependencies, as THIRD_PARTY_NOTICES.md${c.reset}
+  license-gen notices --format markdown
+
+  ${c.dim}# SPDX 2.3 document for the release, with the dependencies, as JSON${c.reset}
+  license-gen sbom --dependencies --output sbom.spdx.json
+
+  ${c.dim}# What a license permits and requires${c.reset}
+  license-gen info apache-2.0
+
+  ${c.dim}# Only copyleft licenses, with full metadata${c.reset}
+  license-gen --list --copyleft --json
+
+  ${c.dim}# Generate an organization license from ./license-templates/acme.txt${c.reset}
+  license-gen acme --templates license-templates
+
+${c.bold}OPTIONS${c.reset}
+  ${c.yellow}-h, --help${c.reset}               Show this help message
+  ${c.yellow}-l, --list${c.reset}               List all available license IDs
+  ${c.yellow}--markdown${c.reset}               With --list, print a Markdown table
+  ${c.yellow}--permissive${c.reset}             With --list, only licenses without copyleft
+  ${c.yellow}--copyleft${c.reset}               With --list, only weak and strong copyleft licenses
+  ${c.yellow}-n, --name <name>${c.reset}        Copyright holder; repeat for several, prefix years
+                           to give a holder its own ("2015-2018 Upstream Author")
+  ${c.yellow}-y, --year <year>${c.reset}        Copyright year or range (default: first commit year
+                           to current year)
+  ${c.yellow}-o, --output <file>${c.reset}      Output filename (default: LICENSE)
+  ${c.yellow}--headers <globs>${c.reset}        Add SPDX headers to source files (comma-separated globs)
+  ${c.yellow}--exclude <globs>${c.reset}        Skip files matching these globs when adding headers
+  ${c.yellow}--templates <dirs>${c.reset}       Load custom license templates (<id>.txt) from these
+                           directories
+  ${c.yellow}--update-headers${c.reset}         Rewrite existing SPDX headers (identifier, year range)
+  ${c.yellow}--file-years${c.reset}             Date each header from its file's first commit
+  ${c.yellow}--update-manifest${c.reset}        Also set the license in package.json, composer.json,
+                           Cargo.toml and pyproject.toml
+  ${c.yellow}--notice${c.reset}                 With Apache-2.0, also write a NOTICE file (keeps
+                           custom attributions already in it)
+  ${c.yellow}--reuse${c.reset}                  Follow the REUSE spec: write LICENSES/<id>.txt instead
+                           of LICENSE, and .license sidecars for files that
+                           can't hold a header comment
+  ${c.yellow}--dry-run${c.reset}                Show a diff of every change without writing (exit 2 if any)
+  ${c.yellow}--fix${c.reset}                    With audit, set package.json's license to match
+  ${c.yellow}--dev${c.reset}                    With deps, notices and sbom, include devDependencies
+  ${c.yellow}--dependencies${c.reset}           With sbom, list the dependencies as packages
+  ${c.yellow}--format <format>${c.reset}        With notices: text, markdown or html; with sbom:
+                           tag-value or json (default: from --output)
+  ${c.yellow}-f, --force${c.reset}              Overwrite existing LICENSE file
+  ${c.yellow}--json${c.reset}                   Output license info as JSON
+
+${c.bold}CONFIG${c.reset}
+  Defaults for license, holders, year, output, headers, exclude, headerStyle
+  and templates are read from ${c.cyan}.licensegenrc${c.reset} or the ${c.cyan}"licenseGen"${c.reset} key in package.json.
+  Command-line flags take precedence.
+
+${c.bold}SUPPORTED LICENSES${c.reset}
+${supportedLicenses()}
+  Plus any custom templates loaded with --templates
+`);
+}
+
+/**
+ * The built-in SPDX IDs, wrapped for the help text. Licenses offered as both
+ * "-only" and "-or-later" are listed once by family.
+ */
+function supportedLicenses(): string {
+  const ids = listLicenses().map((lic) => lic.spdx);
+  const families = ids
+    .filter((id) => id.endsWith("-only"))
+    .map((id) => id.replace(/-only$/, ""))
+    .filter((family) => ids.includes(`${family}-or-later`));
+  const single = ids.filter(
+    (id) => !families.includes(id.replace(/-(only|or-later)$/, ""))
+  );
+
+  return [
+    wrap(single.join(", "), 74, "  "),
+    wrap(`${families.join(", ")} (as -only or -or-later)`, 74, "  "),
+  ].join("\n");
+}
+
+/** Word-wrap `text` to `width` columns, indenting every line. */
+function wrap(text: string, width: number, indent: string): string {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    if (line && indent.length + line.length + 1 + word.length > width) {
+      lines.push(indent + line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(indent + line);
+  return lines.join("\n");
+}
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+/**
+ * Fill options the command line left unset from the project config.
+ * Returns where each setting came from: "cli", the config source or "default".
+ */
+function applyConfig(
+  opts: CliOptions,
+  loaded: LoadedConfig | null
+): Record<ConfigKey, string> {
+  const sources = {} as Record<ConfigKey, string>;
+  const config = loaded?.config ?? {};
+
+  const pick = <K extends ConfigKey>(key: K): ProjectConfig[K] => {
+    if (opts.given.has(key)) {
+      sources[key] = "cli";
+      return undefined;
+    }
+    if (config[key] === undefined) {
+      sources[key] = "default";
+      return undefined;
+    }
+    sources[key] = loaded!.source;
+    return config[key];
+  };
+
+  const license = pick("license");
+  if (license !== undefined) opts.license = license;
+  const holders = pick("holders");
+  if (holders !== undefined) opts.names = holders;
+  const year = pick("year");
+  if (year !== undefined) opts.year = year;
+  const output = pick("output");
+  if (output !== undefined) opts.output = output;
+  const headers = pick("headers");
+  if (headers !== undefined) opts.headers = headers;
+  const exclude = pick("exclude");
+  if (exclude !== undefined) opts.exclude = exclude;
+  const headerStyle = pick("headerStyle");
+  if (headerStyle !== undefined) opts.headerStyle = headerStyle;
+  const templates = pick("templates");
+  if (templates !== undefined) opts.templates = templates;
+  const updateManifest = pick("updateManifest");
+  if (updateManifest !== undefined) opts.updateManifest = updateManifest;
+  const notice = pick("notice");
+  if (notice !== undefined) opts.notice = notice;
+  const reuse = pick("reuse");
+  if (reuse !== undefined) opts.reuse = reuse;
+
+  return sources;
+}
+
+// ── SPDX Headers ────────────────────────────────────────────────────────────
+
+/**
+ * Add SPDX headers to the files --headers matches, or with --update-headers
+ * refresh them. With --file-years but no git history, every file falls back
+ * to the project-wide years, with a note saying so.
+ */
+function addHeaders(
+  opts: CliOptions,
+  spdx: string,
+  dryRun: boolean
+): AppliedHeaders {
+  const result = applyHeaders(opts.headers, {
+    license: spdx,
+    holders: opts.names,
+    year: opts.year,
+    exclude: opts.exclude,
+    update: opts.updateHeaders,
+    dryRun,
+    fileYears: opts.fileYears,
+    styles: opts.headerStyle,
+    reuse: opts.reuse,
+    templates: opts.templates,
+  });
+  if (opts.fileYears && !result.fileYears) {
+    console.error(
+      `${c.dim}No git history found; using ${opts.year} for every header.${c.reset}`
+    );
+  }
+  return result;
+}
+
+// ── Check ───────────────────────────────────────────────────────────────────
+
+function runCheck(opts: CliOptions, spdx: string): number {
+  if (opts.headers.length === 0) {
+    console.error(
+      `\n${c.red}check needs ${c.bold}--headers <globs>${c.reset}${c.red} to know which files to verify.${c.reset}\n`
+    );
+    return 1;
+  }
+
+  const checks = checkHeaders(opts.headers, {
+    license: spdx,
+    exclude: opts.exclude,
+    styles: opts.headerStyle,
+    reuse: opts.reuse,
+    templates: opts.templates,
+  });
+  const failed = checks.filter((check) => check.issues.length > 0);
+  const unsupported = checks.filter((check) => check.unsupported);
+  const checked = checks.length - unsupported.length;
+
+  if (opts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          license: spdx,
+          files: checks.map((check) => ({
+            ...check,
+            file: path.relative(process.cwd(), check.file),
+          })),
+          violations: failed.length,
+          unsupported: unsupported.length,
+        },
+        null,
+        2
+      )
+    );
+    return failed.length > 0 ? 1 : 0;
+  }
+
+  console.log(
+    `\n${c.bold}${c.magenta}🔍 SPDX Header Check${c.reset} ${c.dim}(${spdx})${c.reset}\n`
+  );
+
+  for (const check of checks) {
+    const file = path.relative(process.cwd(), check.file);
+    if (check.unsupported) {
+      console.log(
+        `  ${c.yellow}-${c.reset} ${c.dim}${file} (unknown comment syntax)${c.reset}`
+      );
+    } else if (check.issues.length === 0) {
+      console.log(`  ${c.green}✓${c.reset} ${c.dim}${file}${c.reset}`);
+    } else {
+      console.log(`  ${c.red}✗${c.reset} ${file}`);
+      for (const message of check.messages) {
+        console.log(`      ${c.yellow}${message}${c.reset}`);
+      }
+    }
+  }
+
+  if (checks.length === 0) {
+    console.log(`  ${c.dim}No files matched ${opts.headers.join(", ")}${c.reset}`);
+  }
+
+  console.log("");
+  if (unsupported.length > 0) {
+    console.log(
+      `  ${c.dim}${unsupported.length} file${unsupported.length !== 1 ? "s" : ""} skipped: unknown comment syntax${c.reset}`
+    );
+  }
+  if (failed.length > 0) {
+    console.log(
+      `  ${c.red}${c.bold}${failed.length}${c.reset}${c.red} of ${checked} file${checked !== 1 ? "s" : ""} failed the header check${c.reset}\n`
+    );
+    return 1;
+  }
+
+  console.log(
+    `  ${c.green}${c.bold}✓${c.reset} All ${checked} file${checked !== 1 ? "s" : ""} have valid SPDX headers\n`
+  );
+  return 0;
+}
+
+// ── Dry Run ─────────────────────────────────────────────────────────────────
+
+/** Exit code for --dry-run when files would change, distinct from errors. */
+const EXIT_PENDING_CHANGES = 2;
+
+function printDiff(diff: string): void {
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    let color: string = c.dim;
+    if (line.startsWith("@@")) color = c.cyan;
+    else if (line.startsWith("+")) color = c.green;
+    else if (line.startsWith("-")) color = c.red;
+    console.log(`    ${color}${line}${c.reset}`);
+  }
+}
+
+/**
+ * Show what generating the license (headers, manifests) would change, without
+ * writing anything. Returns EXIT_PENDING_CHANGES if anything would change.
+ */
+function runDryRun(
+  opts: CliOptions,
+  spdx: string,
+  files: ExpressionFile[],
+  manifests: ManifestChange[],
+  notice: NoticeChange | null
+): number {
+  const licenseDiffs = files.map(({ file, content }) => {
+    const existing = fs.existsSync(path.resolve(file))
+      ? fs.readFileSync(path.resolve(file), "utf-8")
+      : null;
+    const diff = unifiedDiff(
+      existing ?? "",
+      content,
+      existing === null ? null : file,
+      file
+    );
+    const changed = existing !== content;
+    return { file, exists: existing !== null, changed, diff };
+  });
+  // The file at --output comes last; for an expression the others hold
+  // one license each. With --reuse, LICENSES/ holds every license instead
+  const licenseFiles = opts.reuse ? licenseDiffs : licenseDiffs.slice(0, -1);
+  const summary = opts.reuse ? null : licenseDiffs[licenseDiffs.length - 1];
+
+  const headers =
+    opts.headers.length > 0 ? addHeaders(opts, spdx, true) : null;
+  const headerDiffs = (headers?.changes ?? []).map((change) => {
+    const file = path.relative(process.cwd(), change.file);
+    const created = headers!.sidecars.includes(change.file);
+    const diff = unifiedDiff(
+      change.before,
+      change.after,
+      created ? null : file,
+      file
+    );
+    return { file, diff };
+  });
+  const unsupported = (headers?.unsupported ?? []).map((file) =>
+    path.relative(process.cwd(), file)
+  );
+
+  const manifestDiffs = manifests.map((change) => {
+    const file = path.relative(process.cwd(), change.file);
+    return { file, diff: unifiedDiff(change.before, change.after, file, file) };
+  });
+
+  const noticeDiff = notice && {
+    file: notice.file,
+    exists: notice.before !== null,
+    changed: notice.before !== notice.after,
+    diff: unifiedDiff(
+      notice.before ?? "",
+      notice.after,
+      notice.before === null ? null : notice.file,
+      notice.file
+    ),
+  };
+
+  const changed =
+    licenseDiffs.some((entry) => entry.changed) ||
+    headerDiffs.length > 0 ||
+    manifestDiffs.length > 0 ||
+    noticeDiff?.changed === true;
+  const code = changed ? EXIT_PENDING_CHANGES : 0;
+
+  if (opts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          dryRun: true,
+          changed,
+          license: summary,
+          licenseFiles,
+          headers: headerDiffs,
+          unsupported,
+          manifests: manifestDiffs,
+          notice: noticeDiff,
+        },
+        null,
+        2
+      )
+    );
+    return code;
+  }
+
+  console.log(
+    `\n${c.bold}${c.magenta}🔎 Dry run${c.reset} ${c.dim}(nothing will be written)${c.reset}\n`
+  );
+
+  for (const { file, exists, changed, diff } of licenseDiffs) {
+    if (!changed) {
+      console.log(`  ${c.dim}${file} is up to date${c.reset}`);
+      continue;
+    }
+    const action = exists
+      ? `would be overwritten${opts.force ? "" : " (needs --force)"}`
+      : "would be created";
+    console.log(`  ${c.cyan}${file}${c.reset} ${action}`);
+    printDiff(diff);
+  }
+
+  for (const { file, diff } of manifestDiffs) {
+    console.log(`\n  ${c.cyan}${file}${c.reset} would be updated`);
+    printDiff(diff);
+  }
+
+  if (noticeDiff && !noticeDiff.changed) {
+    console.log(`\n  ${c.dim}${noticeDiff.file} is up to date${c.reset}`);
+  } else if (noticeDiff) {
+    const action = noticeDiff.exists ? "updated" : "created";
+    console.log(`\n  ${c.cyan}${noticeDiff.file}${c.reset} would be ${action}`);
+    printDiff(noticeDiff.diff);
+  }
+
+  if (headers) {
+    const count = headerDiffs.length;
+    console.log(
+      `\n  ${c.bold}${count}${c.reset} file${count !== 1 ? "s" : ""} would get header changes`
+    );
+    for (const { file, diff } of headerDiffs) {
+      console.log(`\n  ${c.cyan}${file}${c.reset}`);
+      printDiff(diff);
+    }
+    if (unsupported.length > 0) {
+      console.log(
+        `\n  ${c.yellow}Would skip ${unsupported.length} file${unsupported.length !== 1 ? "s" : ""} with unknown comment syntax:${c.reset}`
+      );
+      for (const file of unsupported) {
+        console.log(`    ${c.dim}${file}${c.reset}`);
+      }
+    }
+  }
+
+  console.log("");
+  return code;
+}
+
+// ── Detect ──────────────────────────────────────────────────────────────────
+
+/**
+ * Identify the license files at opts.target. Exits 1 when none are found or
+ * any of them doesn't match a known license.
+ */
+function runDetect(opts: CliOptions): number {
+  let matches: LicenseFileMatch[];
+  try {
+    matches = detectLicenseFiles(opts.target, { templates: opts.templates });
+  } catch {
+    console.error(`\n${c.red}Cannot read ${opts.target}${c.reset}\n`);
+    return 1;
+  }
+  const unknown = matches.filter(
+    (match) => match.id === null && match.expression === null
+  );
+  const code = matches.length === 0 || unknown.length > 0 ? 1 : 0;
+
+  if (opts.json) {
+    console.log(
+      JSON.stringify(
+        matches.map((match) => ({
+          ...match,
+          file: path.relative(process.cwd(), match.file),
+        })),
+        null,
+        2
+      )
+    );
+    return code;
+  }
+
+  console.log(`\n${c.bold}${c.magenta}🔍 License Detection${c.reset}\n`);
+
+  if (matches.length === 0) {
+    console.log(
+      `  ${c.yellow}No LICENSE, COPYING or UNLICENSE files found in ${opts.target}${c.reset}\n`
+    );
+    return code;
+  }
+
+  for (const match of matches) {
+    const file = path.relative(process.cwd(), match.file);
+    const percent = `${(match.score * 100).toFixed(1)}%`;
+    console.log(`  ${c.cyan}${file}${c.reset}`);
+    if (match.id === null && match.expression !== null) {
+      console.log(
+        `    ${c.green}✓${c.reset} License summary for ${c.bold}${match.expression}${c.reset}`
+      );
+    } else if (match.id === null) {
+      const closest = match.closest
+        ? `, closest: ${match.closest} at ${percent}`
+        : "";
+      console.log(
+        `    ${c.red}✗${c.reset} Unknown license${c.dim}${closest}${c.reset}`
+      );
+    } else {
+      const state = match.modified
+        ? `${c.yellow}modified${c.reset}`
+        : `${c.green}unmodified${c.reset}`;
+      const spdx = match.exception
+        ? `${match.spdx} WITH ${match.exception}`
+        : match.spdx;
+      console.log(
+        `    ${c.green}✓${c.reset} ${c.bold}${match.name}${c.reset} ${c.dim}(${spdx})${c.reset}, ${percent} match, ${state}`
+      );
+    }
+    for (const holder of match.holders) {
+      const years = holder.years ? `${holder.years} ` : "";
+      console.log(`    ${c.dim}Copyright (c) ${years}${holder.name}${c.reset}`);
+    }
+  }
+
+  console.log("");
+  return code;
+}
+
+// ── Audit ───────────────────────────────────────────────────────────────────
+
+const AUDIT_LABELS: Record<AuditSource, string> = {
+  "license-file": "LICENSE",
+  "package.json": "package.json",
+  readme: "README",
+  headers: "Headers",
+};
+
+/**
+ * Cross-check the LICENSE files, package.json, README and SPDX headers
+ * against opts.license, or the LICENSE file's license when none is given.
+ * Exits 1 on any mismatch left unfixed.
+ */
+function runAudit(opts: CliOptions): number {
+  let result: AuditResult;
+  try {
+    // Without --headers, every file is scanned for an SPDX tag
+    result = auditProject({
+      license: opts.license || undefined,
+      headers: opts.headers.length > 0 ? opts.headers : undefined,
+      exclude: opts.exclude,
+      reuse: opts.reuse,
+      fix: opts.fix,
+      templates: opts.templates,
+    });
+  } catch (err) {
+    if (!(err instanceof LicenseGenError)) throw err;
+    console.error(`\n${c.red}${err.message}${c.reset}\n`);
+    return 1;
+  }
+  const code = result.mismatches > 0 ? 1 : 0;
+  const relative = (file: string) => path.relative(process.cwd(), file);
+
+  if (opts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          ...result,
+          findings: result.findings.map((finding) => ({
+            ...finding,
+            file: finding.file && relative(finding.file),
+            ...(finding.files ? { files: finding.files.map(relative) } : {}),
+          })),
+        },
+        null,
+        2
+      )
+    );
+    return code;
+  }
+
+  const basis =
+    result.basis && result.basis !== "given"
+      ? ` from ${AUDIT_LABELS[result.basis]}`
+      : "";
+  console.log(
+    `\n${c.bold}${c.magenta}🔍 License Audit${c.reset} ${c.dim}(expected: ${result.expected ?? "unknown"}${basis})${c.reset}\n`
+  );
+
+  for (const finding of result.findings) {
+    const mark = finding.ok
+      ? `${c.green}✓${c.reset}`
+      : finding.fixed
+        ? `${c.yellow}✎${c.reset}`
+        : `${c.red}✗${c.reset}`;
+    const where = finding.file
+      ? ` ${c.dim}${relative(finding.file)}${c.reset}`
+      : "";
+    console.log(
+      `  ${mark} ${c.bold}${AUDIT_LABELS[finding.source]}${c.reset}${where}: ${finding.message}`
+    );
+    if (!finding.ok && finding.files) {
+      for (const file of finding.files) {
+        console.log(`      ${c.dim}${relative(file)}${c.reset}`);
+      }
+    }
+  }
+
+  console.log("");
+  if (result.mismatches > 0) {
+    const count = result.mismatches;
+    console.log(
+      `  ${c.red}${c.bold}${count}${c.reset}${c.red} mismatch${count !== 1 ? "es" : ""} found${c.reset}\n`
+    );
+  }
+  return code;
+}
+
+// ── Deps ────────────────────────────────────────────────────────────────────
+
+/**
+ * Print why deps or sbom couldn't run. Without a license on the command
+ * line, the project's own was used, so suggest passing one.
+ */
+function printProjectError(err: LicenseGenError, opts: CliOptions): void {
+  console.error(`\n${c.red}${err.message}${c.reset}`);
+  if (!opts.license) {
+    console.error(
+      `${c.dim}Pass one: ${c.cyan}license-gen ${opts.command} mit${c.reset}`
+    );
+  }
+  console.error("");
+}
+
+/**
+ * List the licenses of the installed dependencies and check each against
+ * opts.license, or the project's own license when none is given. Exits 1
+ * when any is incompatible.
+ */
+function runDeps(opts: CliOptions): number {
+  let report: DependencyReport;
+  try {
+    report = checkDependencies({
+      license: opts.license || undefined,
+      dev: opts.dev,
+      templates: opts.templates,
+    });
+  } catch (err) {
+    if (!(err instanceof LicenseGenError)) throw err;
+    printProjectError(err, opts);
+    return 1;
+  }
+  const code = report.incompatible > 0 ? 1 : 0;
+
+  if (opts.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return code;
+  }
+
+  console.log(
+    `\n${c.bold}${c.magenta}📦 Dependency Licenses${c.reset} ${c.dim}(project: ${report.project})${c.reset}\n`
+  );
+  if (report.dependencies.length === 0) {
+    console.log(
+      `  ${c.yellow}No dependencies found in package-lock.json or node_modules${c.reset}\n`
+    );
+    return code;
+  }
+
+  const deps = report.dependencies;
+  const nameWidth = Math.max(4, ...deps.map((dep) => dep.name.length));
+  const versionWidth = Math.max(7, ...deps.map((dep) => dep.version.length));
+  const license = (dep: Dependency) =>
+    dep.spdx ?? dep.declared ?? "none";
+  const licenseWidth = Math.max(7, ...deps.map((dep) => license(dep).length));
+  const marks = {
+    compatible: `${c.green}✓${c.reset}`,
+    incompatible: `${c.red}✗${c.reset}`,
+    unknown: `${c.yellow}?${c.reset}`,
+  };
+
+  console.log(
+    `    ${c.bold}${pad("NAME", nameWidth)}  ${pad("VERSION", versionWidth)}  ${pad("LICENSE", licenseWidth)}${c.reset}`
+  );
+  for (const dep of deps) {
+    const reason = dep.reason ? `  ${c.dim}${dep.reason}${c.reset}` : "";
+    console.log(
+      `  ${marks[dep.status]} ${pad(dep.name, nameWidth)}  ${c.dim}${pad(dep.version, versionWidth)}${c.reset}  ${pad(license(dep), licenseWidth)}${reason}`
+    );
+  }
+
+  const count = deps.length;
+  const summary = `${count} dependenc${count !== 1 ? "ies" : "y"}, ${report.incompatible} incompatible, ${report.unknown} unknown`;
+  const color =
+    report.incompatible > 0 ? c.red : report.unknown > 0 ? c.yellow : c.green;
+  console.log(`\n  ${color}${summary}${c.reset}\n`);
+  return code;
+}
+
+// ── Notices ─────────────────────────────────────────────────────────────────
+
+/**
+ * Write the license texts and copyright notices of the production
+ * dependencies to one file. With --dry-run, show the diff instead and
+ * return EXIT_PENDING_CHANGES if the file would change.
+ */
+function runNotices(opts: CliOptions): number {
+  if (opts.format && !NOTICE_FORMATS.includes(opts.format as NoticeFormat)) {
+    console.error(
+      `\n${c.red}Unknown format "${opts.format}". Use ${NOTICE_FORMATS.join(", ")}.${c.reset}\n`
+    );
+    return 1;
+  }
+  let notices: RenderedNotices;
+  try {
+    // --output is the LICENSE file's setting unless given for this command
+    notices = renderNotices({
+      format: (opts.format || undefined) as NoticeFormat | undefined,
+      output: opts.given.has("output") ? opts.output : undefined,
+      dev: opts.dev,
+      templates: opts.templates,
+    });
+  } catch (err) {
+    if (!(err instanceof TemplateError)) throw err;
+    console.error(`\n${c.red}Invalid template: ${err.message}${c.reset}\n`);
+    return 1;
+  }
+  const { file, format, groups, content } = notices;
+  const existing = fs.existsSync(path.resolve(file))
+    ? fs.readFileSync(path.resolve(file), "utf-8")
+    : null;
+  const changed = existing !== content;
+  const packages = new Set(
+    groups.flatMap((group) =>
+      group.packages.map((pkg) => `${pkg.name}@${pkg.version}`)
+    )
+  ).size;
+
+  if (opts.dryRun) {
+    const diff = unifiedDiff(
+      existing ?? "",
+      content,
+      existing === null ? null : file,
+      file
+    );
+    if (opts.json) {
+      console.log(
+        JSON.stringify({ dryRun: true, changed, file, format, diff }, null, 2)
+      );
+    } else if (!changed) {
+      console.log(`\n  ${c.dim}${file} is up to date${c.reset}\n`);
+    } else {
+      const action = existing === null ? "created" : "updated";
+      console.log(`\n  ${c.cyan}${file}${c.reset} would be ${action}`);
+      printDiff(diff);
+      console.log("");
+    }
+    return changed ? EXIT_PENDING_CHANGES : 0;
+  }
+
+  if (changed) fs.writeFileSync(path.resolve(file), content);
+  if (opts.json) {
+    console.log(
+      JSON.stringify({ file, format, changed, groups, content }, null, 2)
+    );
+    return 0;
+  }
+  const plural = (n: number, noun: string) => `${n} ${noun}${n !== 1 ? "s" : ""}`;
+  const count = plural(packages, "package");
+  const texts = plural(groups.length, "license text");
+  console.log(
+    changed
+      ? `\n${c.green}${c.bold}✓${c.reset} Wrote ${c.cyan}${file}${c.reset} ${c.dim}(${count}, ${texts})${c.reset}\n`
+      : `\n${c.dim}${file} is up to date (${count}, ${texts})${c.reset}\n`
+  );
+  return 0;
+}
+
+// ── Lint ────────────────────────────────────────────────────────────────────
+
+/**
+ * Check the project at opts.target against the REUSE spec. Exits 1 unless
+ * every file has licensing info and every license used has its text.
+ */
+function runLint(opts: CliOptions): number {
+  let result: ReuseLintResult;
+  try {
+    result = lintProject({ cwd: path.resolve(opts.target) });
+  } catch (err) {
+    if (!(err instanceof ReuseError)) throw err;
+    console.error(`\n${c.red}Invalid ${err.message}${c.reset}\n`);
+    return 1;
+  }
+  const code = result.compliant ? 0 : 1;
+
+  if (opts.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return code;
+  }
+
+  console.log(
+    `\n${c.bold}${c.magenta}🔍 REUSE Lint${c.reset} ${c.dim}(${opts.target})${c.reset}\n`
+  );
+
+  const section = (title: string, entries: string[], files?: string[][]) => {
+    if (entries.length === 0) return;
+    console.log(`  ${c.bold}${title}${c.reset}`);
+    entries.forEach((entry, i) => {
+      console.log(`  ${c.red}✗${c.reset} ${entry}`);
+      for (const file of files?.[i] ?? []) {
+        console.log(`      ${c.dim}${file}${c.reset}`);
+      }
+    });
+    console.log("");
+  };
+
+  section(
+    "Bad license expressions",
+    result.badLicenses.map(({ license }) => `"${license}"`),
+    result.badLicenses.map(({ files }) => files)
+  );
+  section(
+    "Licenses without a text in LICENSES/",
+    result.missingTexts.map(({ license }) => license),
+    result.missingTexts.map(({ files }) => files)
+  );
+  section("Unused texts in LICENSES/", result.unusedTexts);
+  section("Files without a license", result.missingLicense);
+  section("Files without a copyright notice", result.missingCopyright);
+
+  const count = result.files.length;
+  const files = `${count} file${count !== 1 ? "s" : ""}`;
+  if (result.compliant) {
+    console.log(
+      `  ${c.green}${c.bold}✓${c.reset} ${files}, all with a license and copyright: REUSE compliant\n`
+    );
+  } else {
+    console.log(`  ${c.red}${files} checked, not REUSE compliant${c.reset}\n`);
+  }
+  return code;
+}
+
+// ── SBOM ────────────────────────────────────────────────────────────────────
+
+/**
+ * Write an SPDX 2.3 document for the project under opts.license, or its own
+ * license when none is given: every file (or those matching --headers) with
+ * checksums and header info, and with --dependencies the installed packages.
+ * Exits 1 if the document would lack a field the spec requires.
+ */
+function runSbom(opts: CliOptions): number {
+  if (opts.format && !SBOM_FORMATS.includes(opts.format as SbomFormat)) {
+    console.error(
+      `\n${c.red}Unknown format "${opts.format}". Use ${SBOM_FORMATS.join(", ")}.${c.reset}\n`
+    );
+    return 1;
+  }
+
+  let sbom: RenderedSbom;
+  try {
+    // Without --headers, every file is described, except the document itself
+    sbom = renderSbom({
+      license: opts.license || undefined,
+      format: (opts.format || undefined) as SbomFormat | undefined,
+      // --output is the LICENSE file's setting unless given for this command
+      output: opts.given.has("output") ? opts.output : undefined,
+      files: opts.headers.length > 0 ? opts.headers : undefined,
+      exclude: opts.exclude,
+      reuse: opts.reuse,
+      dependencies: opts.dependencies,
+      dev: opts.dev,
+      holders: opts.names,
+      year: opts.year,
+      templates: opts.templates,
+    });
+  } catch (err) {
+    if (err instanceof SbomError) {
+      console.error(`\n${c.red}The SPDX document would be invalid:${c.reset}`);
+      for (const problem of err.problems) {
+        console.error(`  ${c.red}✗${c.reset} ${problem}`);
+      }
+      console.error("");
+      return 1;
+    }
+    if (!(err instanceof LicenseGenError)) throw err;
+    printProjectError(err, opts);
+    return 1;
+  }
+  const { file, format, document, content } = sbom;
+
+  const existing = fs.existsSync(path.resolve(file))
+    ? fs.readFileSync(path.resolve(file), "utf-8")
+    : null;
+  const changed = existing !== content;
+
+  if (opts.dryRun) {
+    const diff = unifiedDiff(
+      existing ?? "",
+      content,
+      existing === null ? null : file,
+      file
+    );
+    if (opts.json) {
+      console.log(
+        JSON.stringify({ dryRun: true, changed, file, format, diff }, null, 2)
+      );
+    } else if (!changed) {
+      console.log(`\n  ${c.dim}${file} is up to date${c.reset}\n`);
+    } else {
+      const action = existing === null ? "created" : "updated";
+      console.log(`\n  ${c.cyan}${file}${c.reset} would be ${action}`);
+      printDiff(diff);
+      console.log("");
+    }
+    return changed ? EXIT_PENDING_CHANGES : 0;
+  }
+
+  if (changed) fs.writeFileSync(path.resolve(file), content);
+  if (opts.json) {
+    console.log(
+      JSON.stringify({ file, format, changed, document, content }, null, 2)
+    );
+    return 0;
+  }
+  const plural = (n: number, noun: string) => `${n} ${noun}${n !== 1 ? "s" : ""}`;
+  const [project, ...dependencies] = document.packages;
+  const counts = [
+    `SPDX 2.3, ${project.licenseDeclared}`,
+    plural(document.files.length, "file"),
+    ...(opts.dependencies
+      ? [`${dependencies.length} dependenc${dependencies.length !== 1 ? "ies" : "y"}`]
+      : []),
+  ].join(", ");
+  console.log(
+    `\n${c.green}${c.bold}✓${c.reset} Wrote ${c.cyan}${file}${c.reset} ${c.dim}(${counts})${c.reset}\n`
+  );
+  return 0;
+}
+
+// ── Info ────────────────────────────────────────────────────────────────────
+
+const LABELS: Record<Permission | Condition | Limitation, string> = {
+  "commercial-use": "Commercial use",
+  modifications: "Modification",
+  distribution: "Distribution",
+  "private-use": "Private use",
+  "patent-use": "Patent use",
+  "include-copyright": "Include copyright and license notice",
+  "document-changes": "State changes",
+  "disclose-source": "Disclose source",
+  "network-use-disclose": "Network use counts as distribution",
+  "same-license": "Same license for derivative works",
+  liability: "Liability",
+  warranty: "Warranty",
+  "trademark-use": "Trademark use",
+};
+
+const COPYLEFT_LABELS: Record<Copyleft, string> = {
+  none: "None (permissive)",
+  weak: "Weak (licensed files or library only)",
+  strong: "Strong (the whole combined work)",
+};
+
+function showInfo(license: LicenseSummary, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(license, null, 2));
+    return;
+  }
+
+  const yesNo = (flag: boolean) =>
+    flag ? `${c.green}Yes${c.reset}` : `${c.dim}No${c.reset}`;
+  const row = (label: string, value: string) =>
+    console.log(`  ${c.dim}${pad(label, 10)}${c.reset}  ${value}`);
+
+  console.log(`\n${c.bold}${c.magenta}📜 ${license.name}${c.reset}\n`);
+  row("ID", `${c.cyan}${license.id}${c.reset}`);
+  row("SPDX", license.spdx);
+  if (license.url) row("URL", license.url);
+  row("OSI", yesNo(license.osiApproved));
+  row("FSF libre", yesNo(license.fsfLibre));
+  row("Copyleft", COPYLEFT_LABELS[license.copyleft]);
+
+  const section = (
+    title: string,
+    items: (Permission | Condition | Limitation)[],
+    mark: string
+  ) => {
+    console.log(`\n  ${c.bold}${title}${c.reset}`);
+    if (items.length === 0) console.log(`    ${c.dim}none${c.reset}`);
+    for (const item of items) console.log(`    ${mark} ${LABELS[item]}`);
+  };
+  section("Permissions", license.permissions, `${c.green}✓${c.reset}`);
+  section("Conditions", license.conditions, `${c.blue}•${c.reset}`);
+  section("Limitations", license.limitations, `${c.red}✗${c.reset}`);
+
+  console.log("");
+}
+
+// ── Wizard ──────────────────────────────────────────────────────────────────
+
+interface WizardAnswers {
+  style: "permissive" | "copyleft" | "any";
+  patents: boolean;
+  network: boolean;
+  library: boolean;
+}
+
+/**
+ * Catalog entries that fit the answers, best match first. Only OSI-approved
+ * licenses are offered; documentation licenses and public-domain waivers
+ * stay available by ID.
+ */
+function narrowCatalog(
+  catalog: LicenseSummary[],
+  answers: WizardAnswers
+): LicenseSummary[] {
+  const fits = catalog.filter((info) => {
+    if (!info.osiApproved) return false;
+    if (answers.style === "permissive" && info.copyleft !== "none") return false;
+    if (answers.style === "copyleft" && info.copyleft === "none") return false;
+    if (answers.patents && !info.permissions.includes("patent-use")) return false;
+    const network = info.conditions.includes("network-use-disclose");
+    return network === answers.network;
+  });
+
+  // Libraries lean towards weak copyleft, applications towards strong
+  const preferred: Copyleft = answers.library ? "weak" : "strong";
+  const rank = (info: LicenseSummary) =>
+    info.copyleft === "none" || info.copyleft === preferred ? 0 : 1;
+  return fits.sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Ask which license to use and who holds the copyright, filling in `opts`.
+ * Runs only on a terminal; Ctrl+C or end of input aborts with exit code 130.
+ */
+async function runWizard(
+  opts: CliOptions,
+  catalog: LicenseSummary[]
+): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  let finished = false;
+  const abort = () => {
+    if (finished) return;
+    console.log(`\n${c.dim}Cancelled.${c.reset}`);
+    process.exit(130);
+  };
+  rl.on("SIGINT", abort);
+  rl.on("close", abort);
+
+  const ask = async (
+    question: string,
+    fallback: string,
+    hint = fallback
+  ): Promise<string> => {
+    const answer = await rl.question(
+      `${c.bold}?${c.reset} ${question} ${c.dim}(${hint})${c.reset} `
+    );
+    return answer.trim() || fallback;
+  };
+
+  const confirm = async (question: string, fallback: boolean) => {
+    for (;;) {
+      const hint = fallback ? "Y/n" : "y/N";
+      const answer = (await ask(question, "", hint)).toLowerCase();
+      if (!answer) return fallback;
+      if (/^y(es)?$/.test(answer)) return true;
+      if (/^no?$/.test(answer)) return false;
+    }
+  };
+
+  const choose = async (question: string, choices: string[]) => {
+    console.log(`${c.bold}?${c.reset} ${question}`);
+    choices.forEach((choice, i) => {
+      console.log(`  ${c.cyan}${i + 1}${c.reset}) ${choice}`);
+    });
+    for (;;) {
+      const answer = Number(await ask("Choose", "1"));
+      if (Number.isInteger(answer) && answer >= 1 && answer <= choices.length) {
+        return answer - 1;
+      }
+    }
+  };
+
+  console.log(`\n${c.bold}${c.magenta}🧭 License wizard${c.reset}\n`);
+
+  const style = (["permissive", "copyleft", "any"] as const)[
+    await choose("What kind of license do you want?", [
+      "Permissive: anyone may reuse the code, even in closed-source products",
+      "Copyleft: modified versions must stay open under the same license",
+      "No preference",
+    ])
+  ];
+  const patents = await confirm(
+    "Do you need an explicit patent grant from contributors?",
+    false
+  );
+  let network = false;
+  let library = false;
+  if (style !== "permissive") {
+    network = await confirm(
+      "Should running modified code as a network service require sharing the source?",
+      false
+    );
+    library = await confirm(
+      "Is this a library that other programs link against?",
+      false
+    );
+  }
+
+  let candidates = narrowCatalog(catalog, { style, patents, network, library });
+  if (candidates.length === 0) {
+    console.log(
+      `${c.yellow}No license matches every answer; showing all OSI-approved licenses.${c.reset}`
+    );
+    candidates = catalog.filter((info) => info.osiApproved);
+  }
+
+  console.log("");
+  const picked = await choose(
+    "Which license?",
+    candidates.map((info) => `${info.name} ${c.dim}(${info.id})${c.reset}`)
+  );
+  const license = candidates[picked];
+  opts.license = license.id;
+
+  console.log("");
+  const defaults = holderDefaults();
+  const detected = opts.names.length > 0 ? opts.names : defaults.names;
+  const holder = await ask("Copyright holder", detected.join(", "));
+  opts.names = holder === detected.join(", ") ? detected : [holder];
+
+  opts.year = await ask("Copyright year", opts.year || defaults.year);
+  opts.output = await ask("Output file", opts.output);
+
+  if (fs.existsSync(path.resolve(opts.output)) && !opts.force) {
+    opts.force = await confirm(`${opts.output} already exists. Overwrite?`, false);
+  }
+
+  finished = true;
+  rl.close();
+  console.log(`\n${c.dim}Using ${license.name} (${license.spdx})${c.reset}`);
+}
+
+// ── List Licenses ───────────────────────────────────────────────────────────
+
+/** Apply --permissive / --copyleft; with both or neither, keep everything. */
+function filterCatalog(
+  catalog: LicenseSummary[],
+  opts: CliOptions
+): LicenseSummary[] {
+  if (opts.permissive === opts.copyleft) return catalog;
+  return catalog.filter(
+    (info) => (info.copyleft === "none") === opts.permissive
+  );
+}
+
+function printLicenses(
+  licenses: LicenseSummary[],
+  format: "text" | "json" | "markdown"
+): void {
+  if (format === "json") {
+    console.log(JSON.stringify(licenses, null, 2));
+    return;
+  }
+
+  if (format === "markdown") {
+    const yesNo = (flag: boolean) => (flag ? "Yes" : "No");
+    console.log("| ID | SPDX | Name | OSI | FSF | Copyleft |");
+    console.log("|----|------|------|-----|-----|----------|");
+    for (const lic of licenses) {
+      console.log(
+        `| \`${lic.id}\` | \`${lic.spdx}\` | ${lic.name} | ${yesNo(lic.osiApproved)} | ${yesNo(lic.fsfLibre)} | ${lic.copyleft} |`
+      );
+    }
+    return;
+  }
+
+  console.log(
+    `\n${c.bold}${c.magenta}📄 Available Licenses${c.reset}\n`
+  );
+
+  const exceptions = listExceptions();
+  const idWidth = Math.max(
+    18,
+    ...licenses.map((lic) => lic.id.length),
+    ...exceptions.map((exception) => exception.spdx.length)
+  );
+  const nameWidth = Math.max(48, ...licenses.map((lic) => lic.name.length));
+  const flag = (value: boolean) =>
+    value ? `${c.green}Yes${c.reset}` : `${c.dim}No ${c.reset}`;
+
+  console.log(
+    `  ${c.bold}${pad("ID", idWidth)}  ${pad("NAME", nameWidth)}  OSI  FSF${c.reset}`
+  );
+  console.log(`  ${c.dim}${"─".repeat(idWidth + nameWidth + 13)}${c.reset}`);
+
+  for (const lic of licenses) {
+    console.log(
+      `  ${c.cyan}${pad(lic.id, idWidth)}${c.reset}  ${pad(lic.name, nameWidth)}  ${flag(lic.osiApproved)}  ${flag(lic.fsfLibre)}`
+    );
+  }
+
+  console.log(
+    `\n  ${c.bold}EXCEPTIONS${c.reset} ${c.dim}(add with "<license> WITH <exception>")${c.reset}`
+  );
+  for (const exception of exceptions) {
+    console.log(
+      `  ${c.cyan}${pad(exception.spdx, idWidth)}${c.reset}  ${pad(exception.name, nameWidth)}  ${c.dim}${exception.licenses.join(", ")}${c.reset}`
+    );
+  }
+
+  console.log("");
+}
+
+function pad(s: string, len: number): string {
+  return s.length >= len ? s.substring(0, len) : s + " ".repeat(len - s.length);
+}
+
+// ── Main ────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const opts = parseArgs(process.argv);
+
+  if (opts.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  let loaded: LoadedConfig | null;
+  try {
+    loaded = loadConfig(process.cwd());
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(`\n${c.red}Invalid config: ${err.message}${c.reset}\n`);
+    process.exit(1);
+  }
+  const sources = applyConfig(opts, loaded);
+
+  // Loading the catalog up front reports a broken template before anything runs
+  let catalog: LicenseSummary[];
+  try {
+    catalog = listLicenses({ templates: opts.templates });
+  } catch (err) {
+    if (!(err instanceof TemplateError)) throw err;
+    console.error(`\n${c.red}Invalid template: ${err.message}${c.reset}\n`);
+    process.exit(1);
+  }
+
+  if (opts.reuse) {
+    try {
+      loadReuseToml(process.cwd());
+    } catch (err) {
+      if (!(err instanceof ReuseError)) throw err;
+      console.error(`\n${c.red}Invalid ${err.message}${c.reset}\n`);
+      process.exit(1);
+    }
+  }
+
+  if (opts.list) {
+    printLicenses(
+      filterCatalog(catalog, opts),
+      opts.json ? "json" : opts.markdown ? "markdown" : "text"
+    );
+    process.exit(0);
+  }
+
+  if (opts.command === "detect") {
+    process.exit(runDetect(opts));
+  }
+
+  if (opts.command === "audit") {
+    process.exit(runAudit(opts));
+  }
+
+  if (opts.command === "deps") {
+    process.exit(runDeps(opts));
+  }
+
+  if (opts.command === "notices") {
+    process.exit(runNotices(opts));
+  }
+
+  if (opts.command === "lint") {
+    process.exit(runLint(opts));
+  }
+
+  if (opts.command === "sbom") {
+    process.exit(runSbom(opts));
+  }
+
+  if (!opts.license) {
+    const interactive =
+      opts.command === "generate" &&
+      !opts.json &&
+      process.stdin.isTTY &&
+      process.stdout.isTTY;
+    if (!interactive) {
+      showHelp();
+      process.exit(1);
+    }
+    await runWizard(opts, catalog);
+  }
+
+  // A single license ID is the simplest expression
+  let resolved: ExpressionSummary;
+  try {
+    resolved = expressionInfo(opts.license, { templates: opts.templates });
+  } catch (err) {
+    if (err instanceof ExpressionError) {
+      console.error(
+        `\n${c.red}Invalid license expression ${err.message}${c.reset}\n`
+      );
+      process.exit(1);
+    }
+    if (err instanceof UnknownExceptionError) {
+      console.error(`\n${c.red}${err.message}${c.reset}`);
+      console.error(
+        `${c.dim}Known exceptions: ${listExceptions()
+          .map((exception) => exception.spdx)
+          .join(", ")}${c.reset}\n`
+      );
+      process.exit(1);
+    }
+    if (!(err instanceof UnknownLicenseError)) throw err;
+    console.error(`\n${c.red}Unknown license: "${err.id}"${c.reset}`);
+    console.error(
+      `${c.dim}Run ${c.cyan}license-gen --list${c.dim} to see available licenses.${c.reset}\n`
+    );
+    process.exit(1);
+  }
+
+  for (const { deprecatedAlias, id } of resolved.licenses) {
+    if (!deprecatedAlias) continue;
+    const advice = id.endsWith("-only")
+      ? `Use ${id} or ${id.replace(/-only$/, "-or-later")} explicitly.`
+      : `Use ${id} instead.`;
+    console.error(
+      `${c.yellow}"${deprecatedAlias}" is deprecated and resolves to ${c.bold}${id}${c.reset}${c.yellow}. ${advice}${c.reset}`
+    );
+  }
+
+  if (opts.command === "info") {
+    // Anything but a lone license, such as one WITH an exception, has an
+    // expression of its own
+    const [license] = resolved.licenses;
+    if (resolved.spdx !== license.spdx) {
+      console.error(
+        `\n${c.red}info takes a single license ID, not "${resolved.spdx}".${c.reset}\n`
+      );
+      process.exit(1);
+    }
+    showInfo(licenseInfo(license.id, { templates: opts.templates }), opts.json);
+    process.exit(0);
+  }
+
+  if (opts.command === "check") {
+    process.exit(runCheck(opts, resolved.spdx));
+  }
+
+  // Holders and years left unset are detected, as the library does
+  if (!opts.year || opts.names.length === 0) {
+    const defaults = holderDefaults();
+    if (!opts.year) {
+      opts.year = defaults.year;
+      if (defaults.yearDetected) sources.year = "detected";
+    }
+    if (opts.names.length === 0) {
+      opts.names = defaults.names;
+      sources.holders = "detected";
+    }
+  }
+
+  const { files, holders, name } = renderExpression(opts.license, {
+    holders: opts.names,
+    year: opts.year,
+    output: opts.output,
+    reuse: opts.reuse,
+    templates: opts.templates,
+  });
+
+  // Manifests are checked before anything is written, so a broken one
+  // doesn't leave the LICENSE file updated on its own
+  let manifests: ManifestChange[] = [];
+  if (opts.updateManifest) {
+    const dir = path.dirname(path.resolve(opts.output));
+    try {
+      manifests = updateManifests(dir, resolved.spdx, true);
+    } catch (err) {
+      if (!(err instanceof ManifestError)) throw err;
+      console.error(`\n${c.red}Invalid manifest: ${err.message}${c.reset}\n`);
+      process.exit(1);
+    }
+  }
+
+  // NOTICE is rebuilt around its custom attributions, so it needs no --force
+  let notice: NoticeChange | null = null;
+  if (opts.notice) {
+    const apache = resolved.licenses.some(
+      (license) => license.spdx === "Apache-2.0"
+    );
+    if (!apache) {
+      console.error(
+        `\n${c.red}--notice needs Apache-2.0 in the license, not "${resolved.spdx}".${c.reset}\n`
+      );
+      process.exit(1);
+    }
+    const file = path.join(path.dirname(opts.output), "NOTICE");
+    const before = fs.existsSync(path.resolve(file))
+      ? fs.readFileSync(path.resolve(file), "utf-8")
+      : null;
+    const after = renderNoticeFile({
+      existing: before,
+      holders: opts.names,
+      year: opts.year,
+      templates: opts.templates,
+      cwd: path.dirname(path.resolve(opts.output)),
+    });
+    notice = { file, before, after };
+  }
+
+  if (opts.dryRun) {
+    process.exit(
+      runDryRun(opts, resolved.spdx, files, manifests, notice)
+    );
+  }
+
+  // Check if any file exists
+  const existing = files.filter(({ file }) => fs.existsSync(path.resolve(file)));
+  if (existing.length > 0 && !opts.force) {
+    const names = existing.map(({ file }) => file).join(", ");
+    console.error(
+      `\n${c.yellow}${names} already exist${existing.length === 1 ? "s" : ""}. Use --force to overwrite.${c.reset}\n`
+    );
+    process.exit(1);
+  }
+
+  if (opts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          license: resolved.spdx,
+          name,
+          author: holders.map((h) => h.name).join(", "),
+          year: opts.year,
+          holders,
+          file: opts.reuse ? null : opts.output,
+          content: opts.reuse ? null : files[files.length - 1].content,
+          licenseFiles: (opts.reuse ? files : files.slice(0, -1)).map(
+            ({ file, spdx, content }) => ({ file, license: spdx, content })
+          ),
+          notice: notice && { file: notice.file, content: notice.after },
+          config: loaded?.source ?? null,
+          settings: {
+            license: { value: opts.license, source: sources.license },
+            holders: { value: opts.names, source: sources.holders },
+            year: { value: opts.year, source: sources.year },
+            output: { value: opts.output, source: sources.output },
+            headers: { value: opts.headers, source: sources.headers },
+            exclude: { value: opts.exclude, source: sources.exclude },
+            headerStyle: { value: opts.headerStyle, source: sources.headerStyle },
+            templates: { value: opts.templates, source: sources.templates },
+            updateManifest: {
+              value: opts.updateManifest,
+              source: sources.updateManifest,
+            },
+            notice: { value: opts.notice, source: sources.notice },
+            reuse: { value: opts.reuse, source: sources.reuse },
+          },
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  // Write license files
+  for (const { file, content } of files) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(path.resolve(file), content);
+  }
+  // REUSE keeps every license text in LICENSES/, next to the output file
+  const generated = opts.reuse
+    ? `${path.dirname(files[0].file)}${path.sep}`
+    : opts.output;
+  console.log(
+    `\n${c.green}${c.bold}✓${c.reset} Generated ${c.cyan}${generated}${c.reset} with ${c.bold}${name}${c.reset}`
+  );
+  for (const { file, spdx } of opts.reuse ? files : files.slice(0, -1)) {
+    console.log(
+      `  ${c.green}${c.bold}✓${c.reset} Generated ${c.cyan}${file}${c.reset} ${c.dim}(${spdx})${c.reset}`
+    );
+  }
+  for (const holder of holders) {
+    console.log(
+      `  ${c.dim}Copyright (c) ${holder.years} ${holder.name}${c.reset}`
+    );
+  }
+  console.log(`  ${c.dim}SPDX: ${resolved.spdx}${c.reset}`);
+
+  for (const change of manifests) {
+    fs.writeFileSync(change.file, change.after);
+    console.log(
+      `  ${c.green}${c.bold}✓${c.reset} Set license to ${resolved.spdx} in ${c.cyan}${path.relative(process.cwd(), change.file)}${c.reset}`
+    );
+  }
+
+  if (notice && notice.before !== notice.after) {
+    fs.writeFileSync(path.resolve(notice.file), notice.after);
+    const action = notice.before === null ? "Generated" : "Updated";
+    console.log(
+      `  ${c.green}${c.bold}✓${c.reset} ${action} ${c.cyan}${notice.file}${c.reset}`
+    );
+  }
+
+  // Add SPDX headers if requested
+  if (opts.headers.length > 0) {
+    const result = addHeaders(opts, resolved.spdx, false);
+    const count = result.added.length;
+    console.log(
+      `  ${c.green}${c.bold}✓${c.reset} Added SPDX headers to ${c.bold}${count}${c.reset} file${count !== 1 ? "s" : ""}`
+    );
+    if (opts.updateHeaders) {
+      const updated = result.updated.length;
+      console.log(
+        `  ${c.green}${c.bold}✓${c.reset} Updated SPDX headers in ${c.bold}${updated}${c.reset} file${updated !== 1 ? "s" : ""}`
+      );
+      for (const file of result.updated) {
+        console.log(`    ${c.dim}${path.relative(process.cwd(), file)}${c.reset}`);
+      }
+    }
+    if (result.sidecars.length > 0) {
+      const sidecars = result.sidecars.length;
+      console.log(
+        `  ${c.green}${c.bold}✓${c.reset} Created ${c.bold}${sidecars}${c.reset} .license sidecar${sidecars !== 1 ? "s" : ""}`
+      );
+      for (const file of result.sidecars) {
+        console.log(`    ${c.dim}${path.relative(process.cwd(), file)}${c.reset}`);
+      }
+    }
+    if (result.unsupported.length > 0) {
+      console.log(
+        `  ${c.yellow}Skipped ${result.unsupported.length} file${result.unsupported.length !== 1 ? "s" : ""} with unknown comment syntax:${c.reset}`
+      );
+      for (const file of result.unsupported) {
+        console.log(`    ${c.dim}${path.relative(process.cwd(), file)}${c.reset}`);
+      }
+    }
+  }
+
+  console.log("");
+}
+
+// Errors the commands don't report themselves end the run the same way
+main().catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`\n${c.red}${message}${c.reset}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+// ── Config ──────────────────────────────────────────────────────────────────
+//
+// Project defaults read from .licensegenrc or package.json#licenseGen.
+
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigError } from "./errors";
+import { splitTopLevel } from "./glob";
+
+/** Project defaults from .licensegenrc or the "licenseGen" key in package.json. */
+export interface ProjectConfig {
+  license?: string;
+  holders?: string[];
+  /** Year or range used for holders without their own, e.g. "2019-2026". */
+  year?: string;
+  output?: string;
+  headers?: string[];
+  exclude?: string[];
+  /** Comment syntax per extension or filename, e.g. { ".tpl": "#" }. */
+  headerStyle?: Record<string, string>;
+  /** Directories of custom license templates (`<id>.txt` files). */
+  templates?: string[];
+  /** Set the license in package.json and other manifests when generating. */
+  updateManifest?: boolean;
+  /** Write an Apache-2.0 NOTICE file next to the LICENSE file. */
+  notice?: boolean;
+  /** Follow the REUSE spec: LICENSES/ texts and ".license" sidecars. */
+  reuse?: boolean;
+}
+
+export type ConfigKey = keyof ProjectConfig;
+
+export const CONFIG_KEYS: ConfigKey[] = [
+  "license",
+  "holders",
+  "year",
+  "output",
+  "headers",
+  "exclude",
+  "headerStyle",
+  "templates",
+  "updateManifest",
+  "notice",
+  "reuse",
+];
+
+const CONFIG_FILES = [".licensegenrc", ".licensegenrc.json"];
+
+export interface LoadedConfig {
+  config: ProjectConfig;
+  /** Where the config came from, e.g. ".licensegenrc" or "package.json#licenseGen". */
+  source: string;
+}
+
+function toList(value: unknown, key: string, source: string): string[] {
+  if (typeof value === "string") {
+    return splitTopLevel(value, ",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+    return value;
+  }
+  throw new ConfigError(
+    source,
+    `"${key}" must be a string or an array of strings`
+  );
+}
+
+function validateConfig(raw: unknown, source: string): ProjectConfig {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(source, "config must be a JSON object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const config: ProjectConfig = {};
+
+  for (const key of Object.keys(input)) {
+    if (!CONFIG_KEYS.includes(key as ConfigKey)) {
+      throw new ConfigError(
+        source,
+        `unknown key "${key}" (expected ${CONFIG_KEYS.join(", ")})`
+      );
+    }
+  }
+
+  for (const key of ["license", "year", "output"] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== "string" || !input[key]) {
+      throw new ConfigError(source, `"${key}" must be a non-empty string`);
+    }
+    config[key] = input[key] as string;
+  }
+
+  for (const key of ["holders", "headers", "exclude", "templates"] as const) {
+    if (input[key] !== undefined) config[key] = toList(input[key], key, source);
+  }
+
+  for (const key of ["updateManifest", "notice", "reuse"] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== "boolean") {
+      throw new ConfigError(source, `"${key}" must be true or false`);
+    }
+    config[key] = input[key];
+  }
+
+  if (input.headerStyle !== undefined) {
+    const styles = input.headerStyle;
+    const valid =
+      typeof styles === "object" &&
+      styles !== null &&
+      Object.values(styles).every((v) => typeof v === "string" && v.trim());
+    if (!valid) {
+      throw new ConfigError(
+        source,
+        `"headerStyle" must map extensions to comment markers, e.g. { ".tpl": "#" }`
+      );
+    }
+    config.headerStyle = styles as Record<string, string>;
+  }
+
+  return config;
+}
+
+/**
+ * Load the project config from `dir`. A .licensegenrc file wins over the
+ * package.json key. Returns null when neither exists; throws on invalid config.
+ */
+export function loadConfig(dir: string): LoadedConfig | null {
+  for (const file of CONFIG_FILES) {
+    const configPath = path.join(dir, file);
+    if (!fs.existsSync(configPath)) continue;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    } catch (err) {
+      throw new ConfigError(file, `invalid JSON (${(err as Error).message})`);
+    }
+    return { config: validateConfig(raw, file), source: file };
+  }
+
+  const pkgPath = path.join(dir, "package.json");
+  if (!fs.existsSync(pkgPath)) return null;
+
+  let pkg: { licenseGen?: unknown };
+  try {
+    pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+  } catch {
+    // An unreadable package.json is not ours to complain about
+    return null;
+  }
+
+  if (pkg?.licenseGen !== undefined) {
+    const source = "package.json#licenseGen";
+    return { config: validateConfig(pkg.licenseGen, source), source };
+  }
+
+  return null;
+}
@@ -0,0 +1,461 @@
+// ── Dependencies ────────────────────────────────────────────────────────────
+//
+// Inventory the licenses of the packages in node_modules, from
+// package-lock.json where it records them and from each package's own
+// package.json or LICENSE file otherwise, and check each one against the
+// project's license.
+
+import * as fs from "fs";
+import * as path from "path";
+import { LicenseFileMatch, detectLicenses } from "./detect";
+import { SEE_LICENSE, fileLicense, packageLicense } from "./audit";
+import { LICENSES, LicenseInfo } from "./licenses";
+import { resolveException } from "./exceptions";
+import {
+  LicenseExpression,
+  expressionTerms,
+  parseExpression,
+  resolveExpression,
+} from "./expression";
+
+export type DependencySource =
+  | "package-lock.json"
+  | "package.json"
+  | "license-file";
+
+export type Compatibility = "compatible" | "incompatible" | "unknown";
+
+export interface InstalledPackage {
+  name: string;
+  version: string;
+  /** Package directory relative to the project, e.g. "node_modules/debug". */
+  path: string;
+  /** The license as the package declares it; null when none was found. */
+  declared: string | null;
+  /** Where `declared` was read from. */
+  source: DependencySource | null;
+  /** `declared` in catalog spelling; null unless every license is known. */
+  spdx: string | null;
+  /**
+   * Only needed for development: package-lock.json marks it "dev" or
+   * "devOptional", or without one, package.json's dependencies don't reach it.
+   */
+  dev: boolean;
+}
+
+export interface Dependency extends InstalledPackage {
+  status: Compatibility;
+  /** Why the dependency isn't compatible, when it isn't. */
+  reason?: string;
+}
+
+export interface DependencyReport {
+  /** The project's license the dependencies were checked against. */
+  project: string;
+  dependencies: Dependency[];
+  incompatible: number;
+  unknown: number;
+}
+
+export interface DependencyOptions {
+  /** Include dev-only packages. Default false. */
+  dev?: boolean;
+  catalog?: Record<string, LicenseInfo>;
+}
+
+// ── Compatibility ───────────────────────────────────────────────────────────
+
+const GPL_2 = ["GPL-2.0-only", "GPL-2.0-or-later"];
+const GPL_3 = ["GPL-3.0-only", "GPL-3.0-or-later"];
+const AGPL_3 = ["AGPL-3.0-only", "AGPL-3.0-or-later"];
+const LGPL = [
+  "LGPL-2.1-only",
+  "LGPL-2.1-or-later",
+  "LGPL-3.0-only",
+  "LGPL-3.0-or-later",
+];
+
+/**
+ * Strong copyleft licenses, and the project licenses a work that includes
+ * them can be distributed under. A "-or-later" GPL project can take a GPLv3
+ * dependency, as the combined work is then distributed under v3.
+ */
+const COPYLEFT_TARGETS: Record<string, string[]> = {
+  "GPL-2.0-only": GPL_2,
+  "GPL-2.0-or-later": [...GPL_2, ...GPL_3, ...AGPL_3],
+  "GPL-3.0-only": ["GPL-2.0-or-later", ...GPL_3, ...AGPL_3],
+  "GPL-3.0-or-later": ["GPL-2.0-or-later", ...GPL_3, ...AGPL_3],
+  "AGPL-3.0-only": AGPL_3,
+  "AGPL-3.0-or-later": AGPL_3,
+  // The EUPL's appendix lists the licenses a combined work may use
+  "EUPL-1.2": [
+    "EUPL-1.2",
+    ...GPL_2,
+    ...GPL_3,
+    ...AGPL_3,
+    ...LGPL,
+    "MPL-2.0",
+    "EPL-2.0",
+  ],
+  "CC-BY-SA-4.0": ["CC-BY-SA-4.0", ...GPL_3],
+};
+
+/**
+ * Permissive and weak copyleft licenses, and the project licenses whose
+ * terms conflict with theirs. Anything not listed here goes anywhere.
+ */
+const CONFLICTS: Record<string, string[]> = {
+  // Apache's patent and indemnity terms are additional restrictions to GPLv2
+  "Apache-2.0": ["GPL-2.0-only", "LGPL-2.1-only"],
+  "LGPL-3.0-only": ["GPL-2.0-only"],
+  "LGPL-3.0-or-later": ["GPL-2.0-only"],
+  "EPL-2.0": [...GPL_2, ...GPL_3, ...AGPL_3],
+  "CDDL-1.0": [...GPL_2, ...GPL_3, ...AGPL_3],
+};
+
+/** Whether a dependency under `dep` can ship in a project under `project`. */
+function licenseFits(dep: LicenseInfo, project: string): boolean {
+  if (dep.spdx === project) return true;
+  const targets = COPYLEFT_TARGETS[dep.spdx];
+  if (targets) return targets.includes(project);
+  // A custom strong copyleft license only combines with itself
+  if (dep.copyleft === "strong") return false;
+  return !(CONFLICTS[dep.spdx] ?? []).includes(project);
+}
+
+/**
+ * Check one dependency expression against each license in the project's.
+ * With OR the dependency fits if any choice does; with AND all must. A WITH
+ * term fits when its exception permits linking, else as its license does.
+ */
+function checkExpression(
+  expression: LicenseExpression,
+  project: string[],
+  catalog: Record<string, LicenseInfo>
+): { fits: boolean; conflicts: string[] } {
+  if (expression.type === "license") {
+    const exception = expression.exception
+      ? resolveException(expression.exception)?.exception
+      : undefined;
+    if (exception?.permitsLinking) return { fits: true, conflicts: [] };
+    const license = Object.values(catalog).find(
+      (info) => info.spdx === expression.id
+    )!;
+    const misfits = project.filter((spdx) => !licenseFits(license, spdx));
+    const conflicts = misfits.map(
+      (spdx) => `${expression.id} can't be distributed under ${spdx}`
+    );
+    return { fits: misfits.length === 0, conflicts };
+  }
+  const results = expression.terms.map((term) =>
+    checkExpression(term, project, catalog)
+  );
+  const fits =
+    expression.type === "or"
+      ? results.some((result) => result.fits)
+      : results.every((result) => result.fits);
+  const conflicts = fits ? [] : results.flatMap((result) => result.conflicts);
+  return { fits, conflicts };
+}
+
+// ── Inventory ───────────────────────────────────────────────────────────────
+
+interface LockEntry {
+  name?: string;
+  version?: string;
+  license?: unknown;
+  dev?: boolean;
+  devOptional?: boolean;
+  link?: boolean;
+}
+
+interface Package {
+  name: string;
+  version: string;
+  path: string;
+  license: string | null;
+  source: DependencySource;
+  dev: boolean;
+}
+
+/** Order strings by code point, so the order doesn't depend on the locale. */
+export function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** The name of the package at `node_modules/a/node_modules/@b/c`: "@b/c". */
+function nameFromPath(dir: string): string {
+  return dir.slice(dir.lastIndexOf("node_modules/") + "node_modules/".length);
+}
+
+/** Packages listed by a v2 or v3 package-lock.json; null for other files. */
+function lockedPackages(cwd: string): Package[] | null {
+  const file = path.join(cwd, "package-lock.json");
+  if (!fs.existsSync(file)) return null;
+
+  let lock: { packages?: Record<string, LockEntry> };
+  try {
+    lock = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+  // v1 lockfiles have no `packages` and don't record licenses
+  if (!lock.packages) return null;
+
+  return Object.entries(lock.packages)
+    .filter(([dir, entry]) => dir.includes("node_modules/") && !entry.link)
+    .map(([dir, entry]) => ({
+      name: entry.name ?? nameFromPath(dir),
+      version: entry.version ?? "",
+      path: dir,
+      license: packageLicense(entry as Record<string, unknown>),
+      source: "package-lock.json" as const,
+      // "devOptional": optional for one dependent, dev-only for the rest
+      dev: entry.dev === true || entry.devOptional === true,
+    }));
+}
+
+/** A package's package.json: null if missing, empty if it can't be parsed. */
+export function readManifest(dir: string): Record<string, unknown> | null {
+  const file = path.join(dir, "package.json");
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+/** The package.json of each package under `dir`, nested ones included. */
+function findPackages(
+  cwd: string,
+  dir: string,
+  found: Map<string, Record<string, unknown>>
+): void {
+  const root = path.join(cwd, dir);
+  if (!fs.existsSync(root)) return;
+
+  const visit = (relative: string) => {
+    const pkg = readManifest(path.join(cwd, relative));
+    if (!pkg) return;
+    found.set(relative, pkg);
+    findPackages(cwd, `${relative}/node_modules`, found);
+  };
+
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+    if (entry.name.startsWith("@")) {
+      const scope = path.join(root, entry.name);
+      for (const scoped of fs.readdirSync(scope, { withFileTypes: true })) {
+        if (scoped.isDirectory()) visit(`${dir}/${entry.name}/${scoped.name}`);
+      }
+    } else {
+      visit(`${dir}/${entry.name}`);
+    }
+  }
+}
+
+/** The names a package.json depends on outside of devDependencies. */
+function runtimeDependencies(pkg: Record<string, unknown>): string[] {
+  return ["dependencies", "optionalDependencies", "peerDependencies"].flatMap(
+    (field) => {
+      const deps = pkg[field];
+      return deps && typeof deps === "object" ? Object.keys(deps) : [];
+    }
+  );
+}
+
+/**
+ * Where `name` is installed for the package at `from` ("" for the project),
+ * searching up through the node_modules directories as require() does.
+ */
+function resolveInstalled(
+  from: string,
+  name: string,
+  found: Map<string, unknown>
+): string | null {
+  let dir = from;
+  for (;;) {
+    const candidate = `${dir ? `${dir}/` : ""}node_modules/${name}`;
+    if (found.has(candidate)) return candidate;
+    if (!dir) return null;
+    const parent = dir.lastIndexOf("/node_modules/");
+    dir = parent === -1 ? "" : dir.slice(0, parent);
+  }
+}
+
+/**
+ * Packages found by walking node_modules, nested ones included. Without a
+ * lockfile to say which are dev-only, the ones package.json's dependencies
+ * don't reach, directly or through other packages, are taken to be.
+ */
+function installedPackages(cwd: string): Package[] {
+  const found = new Map<string, Record<string, unknown>>();
+  findPackages(cwd, "node_modules", found);
+
+  // Without a package.json there is nothing to tell them apart by
+  const project = readManifest(cwd);
+  const runtime = new Set<string>(project ? [] : found.keys());
+  const queue: [string, Record<string, unknown>][] = project
+    ? [["", project]]
+    : [];
+  while (queue.length > 0) {
+    const [from, pkg] = queue.shift()!;
+    for (const name of runtimeDependencies(pkg)) {
+      const dir = resolveInstalled(from, name, found);
+      if (dir === null || runtime.has(dir)) continue;
+      runtime.add(dir);
+      queue.push([dir, found.get(dir)!]);
+    }
+  }
+
+  return [...found].map(([relative, pkg]) => ({
+    name: typeof pkg.name === "string" ? pkg.name : nameFromPath(relative),
+    version: typeof pkg.version === "string" ? pkg.version : "",
+    path: relative,
+    license: packageLicense(pkg),
+    source: "package.json" as const,
+    dev: !runtime.has(relative),
+  }));
+}
+
+/** The license of an installed package's LICENSE file, if one is identified. */
+function licenseFileOf(
+  dir: string,
+  catalog: Record<string, LicenseInfo>,
+  file?: string
+): string | null {
+  const target = file ? path.join(dir, file) : dir;
+  if (!fs.existsSync(target)) return null;
+  let matches: LicenseFileMatch[];
+  try {
+    matches = detectLicenses(target, catalog);
+  } catch {
+    return null;
+  }
+  const licenses = matches.map(fileLicense).filter((spdx) => spdx !== null);
+  return licenses[0] ?? null;
+}
+
+/**
+ * The project's own license, to check dependencies against when none is
+ * given: package.json's, or else the one its LICENSE file holds.
+ */
+export function projectLicense(
+  cwd: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): string | null {
+  const manifest = readManifest(cwd);
+  const declared = manifest && packageLicense(manifest);
+  if (declared && !SEE_LICENSE.test(declared)) return declared;
+  return licenseFileOf(cwd, catalog);
+}
+
+/**
+ * The dependencies installed in `cwd` and the license each declares, sorted
+ * by name. Dev-only packages are left out unless `options.dev` is set.
+ */
+export function listDependencies(
+  cwd: string,
+  options: DependencyOptions = {}
+): InstalledPackage[] {
+  const catalog = options.catalog ?? LICENSES;
+  const packages = (lockedPackages(cwd) ?? installedPackages(cwd))
+    .filter((pkg) => options.dev || !pkg.dev)
+    .sort(
+      (a, b) =>
+        compareCodePoints(a.name, b.name) || compareCodePoints(a.path, b.path)
+    );
+
+  return packages.map((pkg) => {
+    const dir = path.join(cwd, pkg.path);
+    let declared = pkg.license;
+    let source: DependencySource | null = declared ? pkg.source : null;
+
+    // Lockfiles written by older npm versions leave licenses out
+    if (!declared && pkg.source === "package-lock.json") {
+      const manifest = readManifest(dir);
+      declared = manifest && packageLicense(manifest);
+      if (declared) source = "package.json";
+    }
+
+    // "SEE LICENSE IN <file>", or nothing at all: read the license file
+    const seeFile = declared ? SEE_LICENSE.exec(declared)?.[1] : undefined;
+    if (!declared || seeFile) {
+      const found = licenseFileOf(dir, catalog, seeFile);
+      if (found) {
+        declared = found;
+        source = "license-file";
+      }
+    }
+
+    let spdx: string | null = null;
+    try {
+      if (declared) spdx = resolveExpression(declared, catalog).spdx;
+    } catch {
+      // Not an expression of catalog licenses
+    }
+    return {
+      name: pkg.name,
+      version: pkg.version,
+      path: pkg.path,
+      declared,
+      source,
+      spdx,
+      dev: pkg.dev,
+    };
+  });
+}
+
+/**
+ * The licenses of the dependencies installed in `cwd`, each checked against
+ * `project` (an ID or expression). Throws if `project` isn't a valid
+ * expression of catalog licenses.
+ */
+export function inventoryDependencies(
+  cwd: string,
+  project: string,
+  options: DependencyOptions = {}
+): DependencyReport {
+  const catalog = options.catalog ?? LICENSES;
+  const resolvedProject = resolveExpression(project, catalog);
+  const projectLicenses = [
+    ...new Set(
+      expressionTerms(resolvedProject.expression).map((term) => term.id)
+    ),
+  ];
+
+  const dependencies = listDependencies(cwd, options).map(
+    (pkg): Dependency => {
+      if (!pkg.declared) {
+        return { ...pkg, status: "unknown", reason: "no license declared" };
+      }
+      if (!pkg.spdx) {
+        const seeFile = SEE_LICENSE.exec(pkg.declared)?.[1];
+        const reason = seeFile
+          ? `${seeFile} is missing or not a known license`
+          : `"${pkg.declared}" is not a license in the catalog`;
+        return { ...pkg, status: "unknown", reason };
+      }
+      const { fits, conflicts } = checkExpression(
+        parseExpression(pkg.spdx),
+        projectLicenses,
+        catalog
+      );
+      return {
+        ...pkg,
+        status: fits ? "compatible" : "incompatible",
+        ...(fits ? {} : { reason: conflicts.join("; ") }),
+      };
+    }
+  );
+
+  const count = (status: Compatibility) =>
+    dependencies.filter((dep) => dep.status === status).length;
+  return {
+    project: resolvedProject.spdx,
+    dependencies,
+    incompatible: count("incompatible"),
+    unknown: count("unknown"),
+  };
+}
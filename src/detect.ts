@@ -0,0 +1,331 @@
+// ── Detect ──────────────────────────────────────────────────────────────────
+//
+// Identify existing license files by comparing their text, with whitespace,
+// punctuation and copyright lines normalized away, against the catalog.
+
+import * as fs from "fs";
+import * as path from "path";
+import { EXCEPTIONS, ExceptionInfo } from "./exceptions";
+import { Holder } from "./holders";
+import { LICENSES, LicenseInfo } from "./licenses";
+
+/** LICENSE, LICENCE.md, COPYING.LESSER, LICENSE-MIT, UNLICENSE and the like. */
+const LICENSE_FILE = /^(?:un)?licen[cs]e(?:[-._].*)?$|^copying(?:[-._].*)?$/i;
+
+/** Matches scoring below this are reported as unidentified. */
+export const MATCH_THRESHOLD = 0.8;
+
+// Stands in for the holder when rendering templates, so the lines a template
+// fills in can be told apart from copyright lines that belong to its text
+const PROBE_HOLDER: Holder = { name: "licensegenprobe", years: "1970" };
+
+/** A line that starts with a copyright statement, not just the word. */
+const COPYRIGHT =
+  /^[\s#*/;!<>%-]*(?:copyright\s*(?:\(c\)|©|\d{4}|[<[{]|yyyy\b)|(?:\(c\)|©)\s*\d{4})/i;
+
+/** A copyright statement inside a line, up to the end of that line. */
+const INLINE_COPYRIGHT =
+  /\b(?:copyright\s*(?:\(c\)|©)?|©)\s*(?:\d{4}|yyyy|<year>|\[yyyy\])[^\n]*/gi;
+
+/**
+ * "Copyright (c) 2019-2026 Name. All rights reserved." as years and name.
+ * The dot of a closing abbreviation stays with the name: "Acme Inc.".
+ */
+const HOLDER_LINE =
+  /^[\s#*/;!<>%-]*(?:copyright\b|\(c\)|©)(?:\s*(?:\(c\)|©))*\s*((?:\d{4}(?:\s*[-–,]\s*|\s+))*\d{4})?,?\s*(?:by\s+)?(.*?(?:\b(?:inc|ltd|co|corp|llc|plc|[a-z])\.)?)[.,\s]*(?:all rights reserved\.?)?\s*$/i;
+
+/** The SPDX tag of a summary file written for a license expression. */
+const SPDX_TAG = /^\s*SPDX-License-Identifier:\s*(\S.*?)\s*$/m;
+
+/** Unfilled copyright placeholders, e.g. "<year> <name of author>". */
+const PLACEHOLDER =
+  /[<[{]\s*(?:year|yyyy|name|owner|copyright holder)|name of (?:author|copyright owner)/i;
+
+export interface LicenseFileMatch {
+  file: string;
+  /** Catalog ID, or null when no license scored above MATCH_THRESHOLD. */
+  id: string | null;
+  spdx: string | null;
+  name: string | null;
+  /** Closest catalog ID, even when it is below the threshold. */
+  closest: string | null;
+  /** Similarity to the closest license's canonical text, from 0 to 1. */
+  score: number;
+  /** Whether the text differs from the canonical one beyond formatting. */
+  modified: boolean;
+  /** Copyright holders found in the file, excluding the license's own. */
+  holders: Holder[];
+  /**
+   * SPDX ID of an exception whose text is included with the license's, as
+   * in the file written for "GPL-2.0-or-later WITH Classpath-exception-2.0".
+   */
+  exception: string | null;
+  /**
+   * Expression from an SPDX-License-Identifier line, as in the summary
+   * written for "MIT OR Apache-2.0"; null when the file has none.
+   */
+  expression: string | null;
+}
+
+/** Whether `file` is named like a license text, as LICENSE or COPYING are. */
+export function isLicenseFile(file: string): boolean {
+  return LICENSE_FILE.test(path.basename(file));
+}
+
+/** License files directly inside `target`, or `target` itself if a file. */
+export function findLicenseFiles(target: string): string[] {
+  if (fs.statSync(target).isFile()) return [path.resolve(target)];
+
+  return fs
+    .readdirSync(target, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && isLicenseFile(entry.name))
+    .map((entry) => path.resolve(target, entry.name))
+    .sort();
+}
+
+function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return tokens.map((token) => (token === "https" ? "http" : token));
+}
+
+/**
+ * Drop a leading title block ("MIT License", "The MIT License (MIT)"): up to
+ * three short lines before the first blank line, none ending a sentence.
+ */
+function stripTitle(lines: string[]): string[] {
+  const blank = lines.findIndex((line) => !line.trim());
+  const title = lines.slice(0, blank);
+  const isTitle =
+    blank > 0 &&
+    blank <= 3 &&
+    title.every((line) => line.length <= 80 && !/[.:;,]\s*$/.test(line));
+  return isTitle ? lines.slice(blank) : lines;
+}
+
+/**
+ * The words of a license text, leaving out its title and copyright
+ * statements, which vary between copies of the same license.
+ */
+function words(text: string, titled = true): string[] {
+  const lines = text.split(/\r?\n/).filter((line) => !COPYRIGHT.test(line));
+  const body = (titled ? stripTitle(lines) : lines)
+    .join("\n")
+    .replace(INLINE_COPYRIGHT, " ")
+    .replace(/\ball rights reserved\b/gi, " ");
+  return tokenize(body);
+}
+
+function bigrams(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const pair = `${tokens[i]} ${tokens[i + 1]}`;
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over word pairs: 1 for the same text, 0 for unrelated. */
+function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of a) {
+    shared += Math.min(count, b.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of b.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * The copyright statement on a line: all of it when the line starts with
+ * one, else the one ending it, as in the GPL-2.0 appendix's "...an idea of
+ * what it does. Copyright (C) yyyy name of author".
+ */
+function copyrightStatement(line: string): string | null {
+  if (COPYRIGHT.test(line)) return line;
+  return line.match(INLINE_COPYRIGHT)?.[0] ?? null;
+}
+
+/**
+ * Holders named on the file's copyright lines. Lines the license text
+ * carries itself (the FSF's, say) and unfilled placeholders are skipped.
+ */
+function findHolders(text: string, own: Set<string>): Holder[] {
+  const holders: Holder[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const statement = copyrightStatement(line);
+    if (!statement) continue;
+    if (own.has(tokenize(statement).join(" "))) continue;
+    if (PLACEHOLDER.test(statement)) continue;
+    if (/\b(?:YEAR|AUTHOR|yyyy)\b/.test(statement)) continue;
+
+    const match = HOLDER_LINE.exec(statement);
+    if (!match || !match[2]) continue;
+    holders.push({
+      name: match[2],
+      years: (match[1] ?? "").replace(/\s*–\s*|\s+-\s+/g, "-"),
+    });
+  }
+  return holders;
+}
+
+/**
+ * Split the copyright statements in a license file ("Copyright (c) 2020
+ * Name", "All rights reserved.") from the license text itself, so copies of
+ * one license by different holders share the same text. A statement ending
+ * a line is split off and the rest of the line kept. Pass the license the
+ * file holds to keep the statements that belong to its text, such as the
+ * FSF's in the GPL.
+ */
+export function splitCopyright(
+  text: string,
+  license?: LicenseInfo
+): { notices: string[]; body: string } {
+  const own = license
+    ? ownCopyrightLines(license.template([PROBE_HOLDER]))
+    : new Set<string>();
+  const notices: string[] = [];
+  const body: string[] = [];
+  let previous = false;
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const found = copyrightStatement(line);
+    const statement =
+      found !== null &&
+      !PLACEHOLDER.test(found) &&
+      !own.has(tokenize(found).join(" "));
+    if (statement) {
+      notices.push(found.trim());
+      const rest = line.slice(0, line.length - found.length).trimEnd();
+      if (rest) body.push(rest);
+    } else if (previous && /^\s*all rights reserved\.?\s*$/i.test(line)) {
+      notices[notices.length - 1] += ` ${line.trim()}`;
+    } else {
+      body.push(line.trimEnd());
+    }
+    previous = statement;
+  }
+
+  const joined = body
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/^\n+|\n+$/g, "");
+  return { notices, body: joined ? `${joined}\n` : "" };
+}
+
+/** Lines of a rendered template that carry copyright of its own. */
+function ownCopyrightLines(rendered: string): Set<string> {
+  return new Set(
+    rendered
+      .split("\n")
+      .map(copyrightStatement)
+      .filter((line): line is string => line !== null)
+      .filter((line) => !line.includes(PROBE_HOLDER.name))
+      .map((line) => tokenize(line).join(" "))
+  );
+}
+
+/**
+ * The first exception whose full text appears in `tokens`, and the tokens
+ * left once it is taken out.
+ */
+function findException(
+  tokens: string[]
+): { exception: ExceptionInfo; rest: string[] } | null {
+  const text = ` ${tokens.join(" ")} `;
+  for (const exception of Object.values(EXCEPTIONS)) {
+    // The exception follows the license, so its title is part of the body
+    const needle = ` ${words(exception.text, false).join(" ")} `;
+    const at = text.indexOf(needle);
+    if (at === -1) continue;
+    const rest = text.slice(0, at) + text.slice(at + needle.length - 1);
+    return { exception, rest: rest.split(" ").filter(Boolean) };
+  }
+  return null;
+}
+
+interface Candidate {
+  id: string;
+  info: LicenseInfo;
+  score: number;
+  /** The template rendered for PROBE_HOLDER. */
+  rendered: string;
+}
+
+/** Compare the text of one license file against every catalog entry. */
+export function identifyLicense(
+  text: string,
+  file: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): LicenseFileMatch {
+  const found = findException(words(text));
+  const tokens = found ? found.rest : words(text);
+  const pairs = bigrams(tokens);
+  const expression = SPDX_TAG.exec(text)?.[1] ?? null;
+  const exception = found?.exception.spdx ?? null;
+
+  let best: Candidate | null = null;
+  for (const [id, info] of Object.entries(catalog)) {
+    const rendered = info.template([PROBE_HOLDER]);
+    const score = similarity(pairs, bigrams(words(rendered)));
+    if (!best || score > best.score) best = { id, info, score, rendered };
+  }
+
+  if (!best) {
+    const none = { id: null, spdx: null, name: null, closest: null };
+    const empty = { score: 0, modified: true, holders: [] };
+    return { file, ...none, ...empty, exception, expression };
+  }
+
+  // The exception's own copyright line (the FSF's) isn't a holder either
+  const own = [best.rendered, found?.exception.text ?? ""].join("\n");
+  const holders = findHolders(text, ownCopyrightLines(own));
+  // Some licenses name the holder in their terms too, so compare against the
+  // text rendered for the holders actually found
+  const filled = holders.length > 0 ? holders : [PROBE_HOLDER];
+  const canonical = words(best.info.template(filled));
+  const identified = best.score >= MATCH_THRESHOLD;
+  return {
+    file,
+    id: identified ? best.id : null,
+    spdx: identified ? best.info.spdx : null,
+    name: identified ? best.info.name : null,
+    closest: best.id,
+    score: Math.round(best.score * 1000) / 1000,
+    modified: canonical.join(" ") !== tokens.join(" "),
+    holders,
+    exception,
+    expression,
+  };
+}
+
+/**
+ * A test for the copyright statements that belong to the text of license
+ * file `file`, such as the FSF's in the GPL, as opposed to its holders'.
+ * Files that aren't LICENSE, COPYING and the like have none.
+ */
+export function ownCopyright(
+  file: string,
+  content: string
+): (statement: string) => boolean {
+  if (!isLicenseFile(file)) return () => false;
+  const match = identifyLicense(content, file);
+  if (!match.id) return () => false;
+
+  const exception = Object.values(EXCEPTIONS).find(
+    (info) => info.spdx === match.exception
+  );
+  const rendered = LICENSES[match.id].template([PROBE_HOLDER]);
+  const own = ownCopyrightLines(`${rendered}\n${exception?.text ?? ""}`);
+  return (statement) => own.has(tokenize(statement).join(" "));
+}
+
+/** Find and identify the license files at `target` (a directory or file). */
+export function detectLicenses(
+  target: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): LicenseFileMatch[] {
+  return findLicenseFiles(target).map((file) =>
+    identifyLicense(fs.readFileSync(file, "utf-8"), file, catalog)
+  );
+}
@@ -0,0 +1,129 @@
+// ── Diff ────────────────────────────────────────────────────────────────────
+//
+// Line-based unified diff used by --dry-run to preview file changes.
+
+interface Op {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/** Above this many cells the LCS table is skipped and the middle replaced. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Follows a last line with no newline after it, as diff(1) prints it. */
+const NO_NEWLINE = "\n\\ No newline at end of file";
+
+function toLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\n$/, "").split("\n");
+  if (!text.endsWith("\n")) lines[lines.length - 1] += NO_NEWLINE;
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  // Trim the common prefix and suffix; header edits only touch the top
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: Op[] = a.slice(0, prefix).map((line) => ({ type: " ", line }));
+
+  const n = midA.length;
+  const m = midB.length;
+  if (n * m > MAX_LCS_CELLS) {
+    for (const line of midA) ops.push({ type: "-", line });
+    for (const line of midB) ops.push({ type: "+", line });
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: " ", line: midA[i++] });
+        j++;
+      } else if (
+        j >= m ||
+        (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+      ) {
+        ops.push({ type: "-", line: midA[i++] });
+      } else {
+        ops.push({ type: "+", line: midB[j++] });
+      }
+    }
+  }
+
+  for (const line of a.slice(a.length - suffix)) ops.push({ type: " ", line });
+  return ops;
+}
+
+/**
+ * Render a unified diff between two texts, or "" when they are identical.
+ * Pass `from` as null for a file that does not exist yet.
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  from: string | null,
+  to: string,
+  context = 3
+): string {
+  if (before === after) return "";
+
+  const ops = diffLines(toLines(before), toLines(after));
+
+  // Line offsets into each side at every op
+  const positions: { a: number; b: number }[] = [];
+  let a = 0;
+  let b = 0;
+  for (const op of ops) {
+    positions.push({ a, b });
+    if (op.type !== "+") a++;
+    if (op.type !== "-") b++;
+  }
+  positions.push({ a, b });
+
+  // Group changes into hunks, merging those whose context overlaps
+  const hunks: [number, number][] = [];
+  ops.forEach((op, i) => {
+    if (op.type === " ") return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(ops.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else hunks.push([start, end]);
+  });
+
+  const out = [`--- ${from === null ? "/dev/null" : `a/${from}`}`, `+++ b/${to}`];
+  for (const [start, end] of hunks) {
+    const slice = ops.slice(start, end);
+    const aCount = slice.filter((op) => op.type !== "+").length;
+    const bCount = slice.filter((op) => op.type !== "-").length;
+    const aStart = positions[start].a + (aCount > 0 ? 1 : 0);
+    const bStart = positions[start].b + (bCount > 0 ? 1 : 0);
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for (const op of slice) out.push(op.type + op.line);
+  }
+
+  return out.join("\n") + "\n";
+}
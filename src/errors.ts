@@ -0,0 +1,65 @@
+// ── Errors ──────────────────────────────────────────────────────────────────
+
+/** Base class for every error the library throws on bad input. */
+export class LicenseGenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The license ID is not in the catalog and is not a known alias. */
+export class UnknownLicenseError extends LicenseGenError {
+  constructor(readonly id: string) {
+    super(`Unknown license: "${id}"`);
+  }
+}
+
+/** The exception in a WITH clause is not in the exceptions catalog. */
+export class UnknownExceptionError extends LicenseGenError {
+  constructor(readonly id: string) {
+    super(`Unknown license exception: "${id}"`);
+  }
+}
+
+/** A project config file is unreadable or has invalid settings. */
+export class ConfigError extends LicenseGenError {
+  constructor(readonly source: string, message: string) {
+    super(`${source}: ${message}`);
+  }
+}
+
+/** A custom license template is malformed or leaves placeholders unfilled. */
+export class TemplateError extends LicenseGenError {
+  constructor(readonly file: string, message: string) {
+    super(`${file}: ${message}`);
+  }
+}
+
+/** A package manifest to update can't be parsed. */
+export class ManifestError extends LicenseGenError {
+  constructor(readonly file: string, message: string) {
+    super(`${file}: ${message}`);
+  }
+}
+
+/** An SPDX license expression doesn't follow the expression grammar. */
+export class ExpressionError extends LicenseGenError {
+  constructor(readonly expression: string, message: string) {
+    super(`"${expression}": ${message}`);
+  }
+}
+
+/** A REUSE.toml file can't be parsed or has invalid annotations. */
+export class ReuseError extends LicenseGenError {
+  constructor(readonly file: string, message: string) {
+    super(`${file}: ${message}`);
+  }
+}
+
+/** A generated SPDX document lacks fields the specification requires. */
+export class SbomError extends LicenseGenError {
+  constructor(readonly problems: string[]) {
+    super(`Invalid SPDX document: ${problems.join("; ")}`);
+  }
+}
@@ -0,0 +1,72 @@
+// ── License Exceptions ──────────────────────────────────────────────────────
+//
+// Additional permissions attached to a license with WITH, as in
+// "GPL-2.0-or-later WITH Classpath-exception-2.0". Each one only makes sense
+// for the licenses it was written against.
+
+import { AUTOCONF_EXCEPTION_3_0 } from "./texts/autoconf-exception-3.0";
+import { CLASSPATH_EXCEPTION_2_0 } from "./texts/classpath-exception-2.0";
+import { GCC_EXCEPTION_3_1 } from "./texts/gcc-exception-3.1";
+import { LLVM_EXCEPTION } from "./texts/llvm-exception";
+
+export interface ExceptionInfo {
+  name: string;
+  spdx: string;
+  /** Reference page for the exception text. */
+  url: string;
+  /** SPDX identifiers of the licenses the exception can be added to. */
+  licenses: string[];
+  /**
+   * Whether code linked with the licensed code may be under other terms.
+   * `deps` checks a dependency whose exception doesn't as its license alone.
+   */
+  permitsLinking: boolean;
+  text: string;
+}
+
+const GPL_2 = ["GPL-2.0-only", "GPL-2.0-or-later"];
+const GPL_3 = ["GPL-3.0-only", "GPL-3.0-or-later"];
+
+export const EXCEPTIONS: Record<string, ExceptionInfo> = {
+  "classpath-exception-2.0": {
+    name: "Classpath exception 2.0",
+    spdx: "Classpath-exception-2.0",
+    url: "https://www.gnu.org/software/classpath/license.html",
+    licenses: GPL_2,
+    permitsLinking: true,
+    text: CLASSPATH_EXCEPTION_2_0,
+  },
+  "gcc-exception-3.1": {
+    name: "GCC Runtime Library exception 3.1",
+    spdx: "GCC-exception-3.1",
+    url: "https://www.gnu.org/licenses/gcc-exception-3.1.html",
+    licenses: GPL_3,
+    permitsLinking: true,
+    text: GCC_EXCEPTION_3_1,
+  },
+  "llvm-exception": {
+    name: "LLVM Exception",
+    spdx: "LLVM-exception",
+    url: "https://spdx.org/licenses/LLVM-exception.html",
+    licenses: ["Apache-2.0"],
+    permitsLinking: true,
+    text: LLVM_EXCEPTION,
+  },
+  "autoconf-exception-3.0": {
+    name: "Autoconf exception 3.0",
+    spdx: "Autoconf-exception-3.0",
+    url: "https://www.gnu.org/licenses/autoconf-exception-3.0.html",
+    licenses: GPL_3,
+    // Only covers the configure scripts Autoconf writes
+    permitsLinking: false,
+    text: AUTOCONF_EXCEPTION_3_0,
+  },
+};
+
+/** Look up an exception by ID, case-insensitively. */
+export function resolveException(
+  id: string
+): { key: string; exception: ExceptionInfo } | null {
+  const key = id.toLowerCase();
+  return EXCEPTIONS[key] ? { key, exception: EXCEPTIONS[key] } : null;
+}
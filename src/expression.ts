@@ -0,0 +1,364 @@
+// ── SPDX Expressions ────────────────────────────────────────────────────────
+//
+// License expressions such as "MIT OR Apache-2.0" or
+// "GPL-2.0-or-later WITH Classpath-exception-2.0": parsing, validation
+// against the catalog, and the set of LICENSE files an expression needs.
+
+import * as path from "path";
+import {
+  ExpressionError,
+  UnknownExceptionError,
+  UnknownLicenseError,
+} from "./errors";
+import { ExceptionInfo, resolveException } from "./exceptions";
+import { Holder } from "./holders";
+import { LICENSES, LicenseInfo, resolveLicense } from "./licenses";
+
+export interface LicenseTerm {
+  type: "license";
+  /** License identifier; a trailing "+" means "or any later version". */
+  id: string;
+  /** Exception identifier from a WITH clause. */
+  exception?: string;
+}
+
+export interface CompoundExpression {
+  type: "and" | "or";
+  /** Two or more operands. Nested operands of the same type are flattened. */
+  terms: LicenseExpression[];
+}
+
+export type LicenseExpression = LicenseTerm | CompoundExpression;
+
+/** Operators may be written all upper or all lower case. */
+const OPERATORS: Record<string, "AND" | "OR" | "WITH"> = {
+  AND: "AND",
+  and: "AND",
+  OR: "OR",
+  or: "OR",
+  WITH: "WITH",
+  with: "WITH",
+};
+
+/** An idstring, optionally DocumentRef-scoped, with the "+" suffix. */
+const IDENTIFIER = /^(?:DocumentRef-[A-Za-z0-9.-]+:)?[A-Za-z0-9.-]+\+?$/;
+
+/** Parentheses, and runs of anything else between spaces and parentheses. */
+const TOKEN = /\(|\)|[^\s()]+/g;
+
+/**
+ * Parse an SPDX license expression. Follows the SPDX grammar: WITH binds
+ * tightest, then AND, then OR, and parentheses group. Identifiers are only
+ * checked for syntax here; see resolveExpression.
+ */
+export function parseExpression(source: string): LicenseExpression {
+  const tokens = source.match(TOKEN) ?? [];
+  let pos = 0;
+
+  const fail = (message: string, token = tokens[pos]): never => {
+    const where = token ? ` at "${token}"` : " at the end";
+    throw new ExpressionError(source, `${message}${where}`);
+  };
+  const operator = () => OPERATORS[tokens[pos]];
+
+  const identifier = (what: string): string => {
+    const token = tokens[pos];
+    if (!token || token === "(" || token === ")" || operator()) {
+      return fail(`expected ${what}`);
+    }
+    if (!IDENTIFIER.test(token)) fail(`invalid ${what}`);
+    pos++;
+    return token;
+  };
+
+  const primary = (): LicenseExpression => {
+    if (tokens[pos] === "(") {
+      pos++;
+      const inner = orExpression();
+      if (tokens[pos] !== ")") fail('expected ")"');
+      pos++;
+      return inner;
+    }
+    const term: LicenseTerm = { type: "license", id: identifier("a license") };
+    if (operator() === "WITH") {
+      pos++;
+      term.exception = identifier("an exception");
+    }
+    return term;
+  };
+
+  const compound = (
+    type: "and" | "or",
+    operand: () => LicenseExpression
+  ): LicenseExpression => {
+    const terms = [operand()];
+    while (operator() === type.toUpperCase()) {
+      pos++;
+      terms.push(operand());
+    }
+    const flat = terms.flatMap((term) =>
+      term.type === type ? (term as CompoundExpression).terms : [term]
+    );
+    return flat.length === 1 ? flat[0] : { type, terms: flat };
+  };
+
+  const andExpression = () => compound("and", primary);
+  const orExpression = (): LicenseExpression => compound("or", andExpression);
+
+  if (tokens.length === 0) throw new ExpressionError(source, "empty expression");
+  const expression = orExpression();
+  if (pos < tokens.length) fail("unexpected token");
+  return expression;
+}
+
+/** Format an expression, with parentheses only where precedence needs them. */
+export function formatExpression(expression: LicenseExpression): string {
+  if (expression.type === "license") {
+    const { id, exception } = expression;
+    return exception ? `${id} WITH ${exception}` : id;
+  }
+  return expression.terms
+    .map((term) => {
+      const text = formatExpression(term);
+      // AND binds tighter than OR, so an OR inside an AND needs grouping
+      const grouped = expression.type === "and" && term.type === "or";
+      return grouped ? `(${text})` : text;
+    })
+    .join(expression.type === "and" ? " AND " : " OR ");
+}
+
+/** Every license term in the expression, left to right. */
+export function expressionTerms(expression: LicenseExpression): LicenseTerm[] {
+  return expression.type === "license"
+    ? [expression]
+    : expression.terms.flatMap(expressionTerms);
+}
+
+/**
+ * Look up one identifier: a catalog ID or SPDX identifier in any case, a
+ * deprecated bare ID such as "GPL-2.0", or "<id>+" for "or any later".
+ */
+function lookupTerm(
+  id: string,
+  catalog: Record<string, LicenseInfo>
+): { key: string; license: LicenseInfo; alias?: string } | null {
+  const lower = id.toLowerCase();
+  const bySpdx = Object.entries(catalog).find(
+    ([, info]) => info.spdx.toLowerCase() === lower
+  );
+  if (bySpdx) return { key: bySpdx[0], license: bySpdx[1] };
+
+  if (lower.endsWith("+")) {
+    const base = lower.slice(0, -1).replace(/-only$/, "");
+    const orLater = resolveLicense(`${base}-or-later`, catalog);
+    if (orLater) return { ...orLater, alias: id };
+  }
+  return resolveLicense(id, catalog);
+}
+
+export interface ExpressionLicense {
+  key: string;
+  license: LicenseInfo;
+  exception?: ExceptionInfo;
+  /** The deprecated identifier the term was written with, if any. */
+  alias?: string;
+}
+
+export interface ResolvedExpression {
+  /** The expression with every identifier in its catalog spelling. */
+  expression: LicenseExpression;
+  /** `expression` formatted, e.g. "MIT OR Apache-2.0". */
+  spdx: string;
+  /** Each distinct license (and exception) the expression uses. */
+  licenses: ExpressionLicense[];
+}
+
+/**
+ * Parse `source` and check every license in it against the catalog. Throws
+ * ExpressionError on bad syntax or an exception added to a license it isn't
+ * for, and UnknownLicenseError / UnknownExceptionError on an unknown ID.
+ */
+export function resolveExpression(
+  source: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): ResolvedExpression {
+  const licenses: ExpressionLicense[] = [];
+
+  const resolve = (node: LicenseExpression): LicenseExpression => {
+    if (node.type !== "license") {
+      return { type: node.type, terms: node.terms.map(resolve) };
+    }
+    const found = lookupTerm(node.id, catalog);
+    if (!found) throw new UnknownLicenseError(node.id);
+
+    const term: LicenseTerm = { type: "license", id: found.license.spdx };
+    let exception: ExceptionInfo | undefined;
+    if (node.exception) {
+      exception = resolveException(node.exception)?.exception;
+      if (!exception) throw new UnknownExceptionError(node.exception);
+      if (!exception.licenses.includes(found.license.spdx)) {
+        throw new ExpressionError(
+          source,
+          `${exception.spdx} only applies to ${exception.licenses.join(", ")}`
+        );
+      }
+      term.exception = exception.spdx;
+    }
+    const seen = licenses.some(
+      (entry) => entry.key === found.key && entry.exception === exception
+    );
+    if (!seen) {
+      licenses.push({
+        key: found.key,
+        license: found.license,
+        ...(exception ? { exception } : {}),
+        ...(found.alias ? { alias: found.alias } : {}),
+      });
+    }
+    return term;
+  };
+
+  const expression = resolve(parseExpression(source));
+  return { expression, spdx: formatExpression(expression), licenses };
+}
+
+/**
+ * An order-independent key for comparing expressions: catalog spellings,
+ * operands sorted. Text that doesn't parse is compared as written.
+ */
+function comparisonKey(
+  source: string,
+  catalog: Record<string, LicenseInfo>
+): string {
+  const normalize = (node: LicenseExpression): LicenseExpression => {
+    if (node.type === "license") {
+      const id = lookupTerm(node.id, catalog)?.license.spdx ?? node.id;
+      return { ...node, id };
+    }
+    const terms = node.terms
+      .map(normalize)
+      .sort((a, b) => {
+        const [x, y] = [formatExpression(a), formatExpression(b)];
+        return x < y ? -1 : x > y ? 1 : 0;
+      });
+    return { type: node.type, terms };
+  };
+  try {
+    return formatExpression(normalize(parseExpression(source))).toLowerCase();
+  } catch {
+    return source.trim().toLowerCase();
+  }
+}
+
+/** Whether two expressions say the same thing ("mit or Apache-2.0" too). */
+export function sameExpression(
+  a: string,
+  b: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): boolean {
+  return comparisonKey(a, catalog) === comparisonKey(b, catalog);
+}
+
+// ── License Files ───────────────────────────────────────────────────────────
+
+export interface ExpressionFile {
+  /** Path in the same form as the summary's, e.g. "LICENSE-MIT". */
+  file: string;
+  /** SPDX identifier of what the file holds: one license, or the expression. */
+  spdx: string;
+  content: string;
+}
+
+/**
+ * File name for one license of an expression, built from the summary's:
+ * LICENSE-MIT, LICENSE-APACHE, COPYING-GPL.md. Uses the identifier's first
+ * part, or all of it when two licenses share that part, followed by the
+ * exception's when the license also appears with another or none.
+ */
+function licenseFileNames(
+  output: string,
+  licenses: ExpressionLicense[]
+): string[] {
+  const ext = path.extname(output);
+  const base = output.slice(0, output.length - ext.length);
+  const short = (entry: ExpressionLicense) =>
+    entry.license.spdx.replace(/^LicenseRef-/, "").split("-")[0].toUpperCase();
+  const full = (entry: ExpressionLicense) => entry.license.spdx.toUpperCase();
+  const sharing = (entry: ExpressionLicense, name: typeof short) =>
+    licenses.some((other) => other !== entry && name(other) === name(entry));
+
+  return licenses.map((entry) => {
+    let suffix = sharing(entry, short) ? full(entry) : short(entry);
+    if (entry.exception && sharing(entry, full)) {
+      suffix += `-WITH-${entry.exception.spdx.toUpperCase()}`;
+    }
+    return `${base}-${suffix}${ext}`;
+  });
+}
+
+/** What the summary says before listing the licenses. */
+function introduction(expression: LicenseExpression): string {
+  if (expression.type === "license") return "This project is licensed under:";
+  if (expression.terms.some((term) => term.type !== "license")) {
+    return "This project is licensed under the expression above, which combines:";
+  }
+  return expression.type === "or"
+    ? "You may use this project under the terms of any one of these licenses, at your option:"
+    : "Use of this project is subject to the terms of all of these licenses:";
+}
+
+/** "GNU General Public License v2.0 or later with the Classpath exception 2.0" */
+export function describeLicense(entry: ExpressionLicense): string {
+  return entry.exception
+    ? `${entry.license.name} with the ${entry.exception.name}`
+    : entry.license.name;
+}
+
+/** The text of one license, followed by its exception's if it has one. */
+export function licenseText(
+  entry: ExpressionLicense,
+  holders: Holder[]
+): string {
+  const text = entry.license.template(holders);
+  if (!entry.exception) return text;
+  return `${text.replace(/\n*$/, "")}\n\n${entry.exception.text}`;
+}
+
+/**
+ * The files an expression is written as: one per license, then a summary at
+ * `output` that gives the full expression and points to each of them. A
+ * single license, with its exception if any, is just one file at `output`.
+ */
+export function expressionFiles(
+  resolved: ResolvedExpression,
+  holders: Holder[],
+  output = "LICENSE"
+): ExpressionFile[] {
+  if (resolved.expression.type === "license") {
+    const [entry] = resolved.licenses;
+    const content = licenseText(entry, holders);
+    return [{ file: output, spdx: resolved.spdx, content }];
+  }
+
+  const names = licenseFileNames(output, resolved.licenses);
+  const files: ExpressionFile[] = resolved.licenses.map((entry, i) => ({
+    file: names[i],
+    spdx: entry.license.spdx,
+    content: licenseText(entry, holders),
+  }));
+
+  const lines = [
+    ...holders.map((h) => `Copyright (c) ${h.years} ${h.name}`),
+    "",
+    `SPDX-License-Identifier: ${resolved.spdx}`,
+    "",
+    introduction(resolved.expression),
+    "",
+    ...resolved.licenses.map(
+      (entry, i) => `  - ${describeLicense(entry)}, in ${path.basename(names[i])}`
+    ),
+    "",
+  ];
+  files.push({ file: output, spdx: resolved.spdx, content: lines.join("\n") });
+  return files;
+}
@@ -0,0 +1,313 @@
+// ── Glob ────────────────────────────────────────────────────────────────────
+//
+// A small, dependency-free glob engine for `--headers`: `*`, `?`, `**`,
+// character classes, `{a,b}` alternatives, `!` exclusions and .gitignore.
+
+import * as fs from "fs";
+import * as path from "path";
+
+/** Directories that are never descended into. */
+const ALWAYS_IGNORED = new Set([".git", ".hg", ".svn", "node_modules"]);
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  digit: "0-9",
+  lower: "a-z",
+  upper: "A-Z",
+  space: "\\s",
+  xdigit: "0-9a-fA-F",
+  punct: "!-\\/:-@\\[-`{-~",
+};
+
+export interface GlobOptions {
+  /** Skip paths matched by .gitignore files found while walking. Default true. */
+  gitignore?: boolean;
+  /** Let wildcards match names starting with ".". Default false. */
+  dot?: boolean;
+}
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Split a list on `sep`, ignoring separators inside `{...}` or `[...]`,
+ * so "src/*.{ts,tsx},lib/*.js" yields two patterns rather than three.
+ */
+export function splitTopLevel(list: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inClass = false;
+  let current = "";
+
+  for (let i = 0; i < list.length; i++) {
+    const ch = list[i];
+    if (ch === "\\" && i + 1 < list.length) {
+      current += ch + list[++i];
+      continue;
+    }
+    if (ch === "[") inClass = true;
+    else if (ch === "]") inClass = false;
+    else if (!inClass && ch === "{") depth++;
+    else if (!inClass && ch === "}" && depth > 0) depth--;
+
+    if (ch === sep && depth === 0 && !inClass) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/** Expand `{a,b}` alternatives, including nested ones, into plain patterns. */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === "}" && depth > 0) {
+      depth--;
+      if (depth > 0) continue;
+
+      const options = splitTopLevel(pattern.substring(start + 1, i), ",");
+      // "{x}" with no comma is literal text
+      if (options.length < 2) continue;
+
+      const before = pattern.substring(0, start);
+      const after = pattern.substring(i + 1);
+      return options.flatMap((option) => expandBraces(before + option + after));
+    }
+  }
+
+  return [pattern];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Translate a `[...]` class starting at `start`. Returns the regex source and
+ * the index of the closing bracket, or null when the bracket is unterminated.
+ */
+function classToRegExp(
+  seg: string,
+  start: number
+): { source: string; end: number } | null {
+  let i = start + 1;
+  let negate = false;
+  if (seg[i] === "!" || seg[i] === "^") {
+    negate = true;
+    i++;
+  }
+
+  let body = "";
+  let first = true;
+  for (; i < seg.length; i++) {
+    const ch = seg[i];
+    if (ch === "]" && !first) {
+      const source = negate ? `[^/${body}]` : `[${body}]`;
+      return { source, end: i };
+    }
+    first = false;
+
+    const named = /^\[:(\w+):\]/.exec(seg.substring(i));
+    if (named && POSIX_CLASSES[named[1]]) {
+      body += POSIX_CLASSES[named[1]];
+      i += named[0].length - 1;
+    } else if (ch === "\\" && i + 1 < seg.length) {
+      body += "\\" + seg[++i];
+    } else if (ch === "\\" || ch === "]" || ch === "[" || ch === "^") {
+      body += "\\" + ch;
+    } else {
+      body += ch;
+    }
+  }
+
+  return null;
+}
+
+function segmentToRegExp(seg: string, dot: boolean): string {
+  // Wildcards at the start of a name don't match dotfiles unless asked to
+  const noDot = dot ? "" : "(?!\\.)";
+  let re = "";
+
+  for (let i = 0; i < seg.length; i++) {
+    const ch = seg[i];
+    const lead = i === 0 ? noDot : "";
+
+    if (ch === "\\" && i + 1 < seg.length) {
+      re += escapeRegExp(seg[++i]);
+    } else if (ch === "*") {
+      while (seg[i + 1] === "*") i++;
+      re += `${lead}[^/]*`;
+    } else if (ch === "?") {
+      re += `${lead}[^/]`;
+    } else if (ch === "[") {
+      const cls = classToRegExp(seg, i);
+      if (cls) {
+        re += lead + cls.source;
+        i = cls.end;
+      } else {
+        re += "\\[";
+      }
+    } else {
+      re += escapeRegExp(ch);
+    }
+  }
+
+  return re;
+}
+
+/**
+ * Compile a brace-free glob into a regex matched against "/"-separated paths
+ * relative to the walk root. `**` spans any number of directories.
+ */
+export function globToRegExp(pattern: string, dot = false): RegExp {
+  const segments = pattern
+    .replace(/^\.\//, "")
+    .replace(/^\/+/, "")
+    .split("/")
+    .filter((seg, i, all) => seg !== "" || i === all.length - 1);
+  const noDot = dot ? "" : "(?!\\.)";
+  let re = "";
+
+  segments.forEach((seg, i) => {
+    const last = i === segments.length - 1;
+    if (seg === "**") {
+      re += last
+        ? `(?:${noDot}[^/]*(?:/${noDot}[^/]*)*)?`
+        : `(?:${noDot}[^/]*/)*`;
+    } else {
+      re += segmentToRegExp(seg, dot) + (last ? "" : "/");
+    }
+  });
+
+  return new RegExp(`^${re}$`);
+}
+
+/** Parse a .gitignore file that lives at `dir` (relative to the walk root). */
+function parseGitignore(text: string, dir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const prefix = dir ? `${dir}/` : "";
+
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.substring(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.substring(1);
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.replace(/\/+$/, "");
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to this directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\/+/, "");
+    const pattern = prefix + (anchored ? line : `**/${line}`);
+
+    for (const expanded of expandBraces(pattern)) {
+      rules.push({ regex: globToRegExp(expanded, true), negate, dirOnly });
+    }
+  }
+
+  return rules;
+}
+
+function isIgnored(rel: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.regex.test(rel)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+function isFile(file: string): boolean {
+  try {
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find files under `baseDir` matching any of `patterns`. Patterns starting
+ * with "!" exclude matches. VCS directories and node_modules are never
+ * walked, and .gitignore'd paths are skipped unless `gitignore` is false.
+ * Returns absolute paths, sorted.
+ */
+export function glob(
+  patterns: string[],
+  baseDir: string,
+  options: GlobOptions = {}
+): string[] {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+
+  for (const raw of patterns) {
+    const negate = raw.startsWith("!");
+    for (const pattern of expandBraces(negate ? raw.substring(1) : raw)) {
+      (negate ? exclude : include).push(globToRegExp(pattern, options.dot));
+    }
+  }
+
+  if (include.length === 0) return [];
+
+  const useGitignore = options.gitignore !== false;
+  const results: string[] = [];
+
+  function walk(dir: string, rel: string, rules: IgnoreRule[]): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Skip dirs we can't read
+      return;
+    }
+
+    const hasGitignore = entries.some(
+      (entry) => entry.name === ".gitignore" && entry.isFile()
+    );
+    if (useGitignore && hasGitignore) {
+      try {
+        const text = fs.readFileSync(path.join(dir, ".gitignore"), "utf-8");
+        rules = rules.concat(parseGitignore(text, rel));
+      } catch {}
+    }
+
+    for (const entry of entries) {
+      const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+      const full = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (ALWAYS_IGNORED.has(entry.name)) continue;
+        if (isIgnored(childRel, true, rules)) continue;
+        walk(full, childRel, rules);
+      } else if (entry.isFile() || (entry.isSymbolicLink() && isFile(full))) {
+        if (isIgnored(childRel, false, rules)) continue;
+        if (!include.some((re) => re.test(childRel))) continue;
+        if (exclude.some((re) => re.test(childRel))) continue;
+        results.push(full);
+      }
+    }
+  }
+
+  walk(baseDir, "", []);
+  return results.sort();
+}
@@ -0,0 +1,558 @@
+// ── SPDX Headers ────────────────────────────────────────────────────────────
+
+import * as fs from "fs";
+import * as path from "path";
+import { glob } from "./glob";
+import { Holder } from "./holders";
+import { sameExpression } from "./expression";
+
+export interface CommentStyle {
+  /** Line comment prefix, e.g. "//" or "#". */
+  line?: string;
+  /** Block comment delimiters, for languages without line comments. */
+  block?: [string, string];
+}
+
+const SLASH: CommentStyle = { line: "//" };
+const HASH: CommentStyle = { line: "#" };
+const DASHES: CommentStyle = { line: "--" };
+const SEMICOLONS: CommentStyle = { line: ";;" };
+const PERCENT: CommentStyle = { line: "%" };
+const C_BLOCK: CommentStyle = { block: ["/*", "*/"] };
+const XML_BLOCK: CommentStyle = { block: ["<!--", "-->"] };
+
+/** Comment syntax by file extension (lowercase, including the dot). */
+const COMMENT_STYLES: Record<string, CommentStyle> = {
+  ".ts": SLASH,
+  ".tsx": SLASH,
+  ".mts": SLASH,
+  ".cts": SLASH,
+  ".js": SLASH,
+  ".jsx": SLASH,
+  ".mjs": SLASH,
+  ".cjs": SLASH,
+  ".c": SLASH,
+  ".h": SLASH,
+  ".cc": SLASH,
+  ".cpp": SLASH,
+  ".cxx": SLASH,
+  ".hpp": SLASH,
+  ".cs": SLASH,
+  ".java": SLASH,
+  ".kt": SLASH,
+  ".kts": SLASH,
+  ".scala": SLASH,
+  ".groovy": SLASH,
+  ".go": SLASH,
+  ".rs": SLASH,
+  ".swift": SLASH,
+  ".dart": SLASH,
+  ".m": SLASH,
+  ".php": SLASH,
+  ".scss": SLASH,
+  ".less": SLASH,
+  ".proto": SLASH,
+  ".zig": SLASH,
+  ".py": HASH,
+  ".pyi": HASH,
+  ".rb": HASH,
+  ".pl": HASH,
+  ".pm": HASH,
+  ".sh": HASH,
+  ".bash": HASH,
+  ".zsh": HASH,
+  ".fish": HASH,
+  ".ps1": HASH,
+  ".r": HASH,
+  ".jl": HASH,
+  ".ex": HASH,
+  ".exs": HASH,
+  ".nim": HASH,
+  ".cr": HASH,
+  ".tf": HASH,
+  ".yml": HASH,
+  ".yaml": HASH,
+  ".toml": HASH,
+  ".ini": { line: ";" },
+  ".cfg": HASH,
+  ".conf": HASH,
+  ".cmake": HASH,
+  ".mk": HASH,
+  ".dockerfile": HASH,
+  ".sql": DASHES,
+  ".lua": DASHES,
+  ".hs": DASHES,
+  ".elm": DASHES,
+  ".ada": DASHES,
+  ".lisp": SEMICOLONS,
+  ".el": SEMICOLONS,
+  ".clj": SEMICOLONS,
+  ".cljs": SEMICOLONS,
+  ".scm": SEMICOLONS,
+  ".rkt": SEMICOLONS,
+  ".asm": { line: ";" },
+  ".erl": PERCENT,
+  ".hrl": PERCENT,
+  ".tex": PERCENT,
+  ".sty": PERCENT,
+  ".vim": { line: '"' },
+  ".f90": { line: "!" },
+  ".bat": { line: "::" },
+  ".cmd": { line: "::" },
+  ".css": C_BLOCK,
+  ".html": XML_BLOCK,
+  ".htm": XML_BLOCK,
+  ".xml": XML_BLOCK,
+  ".svg": XML_BLOCK,
+  ".xhtml": XML_BLOCK,
+  ".vue": XML_BLOCK,
+  ".svelte": XML_BLOCK,
+  ".md": XML_BLOCK,
+  ".markdown": XML_BLOCK,
+};
+
+/** Comment syntax for well-known extensionless files. */
+const FILENAME_STYLES: Record<string, CommentStyle> = {
+  Makefile: HASH,
+  GNUmakefile: HASH,
+  Dockerfile: HASH,
+  Containerfile: HASH,
+  Gemfile: HASH,
+  Rakefile: HASH,
+};
+
+/** Comment syntax by shebang interpreter, for extensionless scripts. */
+const SHEBANG_STYLES: Record<string, CommentStyle> = {
+  sh: HASH,
+  bash: HASH,
+  zsh: HASH,
+  dash: HASH,
+  ksh: HASH,
+  fish: HASH,
+  python: HASH,
+  python3: HASH,
+  ruby: HASH,
+  perl: HASH,
+  Rscript: HASH,
+  node: SLASH,
+  deno: SLASH,
+  bun: SLASH,
+  "ts-node": SLASH,
+  tsx: SLASH,
+  lua: DASHES,
+};
+
+/**
+ * Lines that must stay at the top of a file, ahead of the license header:
+ * shebangs, Python encoding declarations, XML declarations and doctypes,
+ * PHP openers and JS directive prologues.
+ */
+const PREAMBLE_PATTERNS: { pattern: RegExp; maxLine: number }[] = [
+  { pattern: /^#!/, maxLine: 0 },
+  { pattern: /^#.*coding[:=]/, maxLine: 1 },
+  { pattern: /^<\?xml\b.*\?>/, maxLine: Infinity },
+  { pattern: /^<!DOCTYPE\b/i, maxLine: Infinity },
+  { pattern: /^<\?php\b/, maxLine: Infinity },
+  { pattern: /^(["'])use [\w ]+\1;?\s*$/, maxLine: Infinity },
+];
+
+/** Parse a configured marker: "#" for line comments, "<!-- -->" for blocks. */
+export function parseCommentMarker(marker: string): CommentStyle {
+  const [open, close] = marker.trim().split(/\s+/);
+  return close ? { block: [open, close] } : { line: open };
+}
+
+export function commentStyleFor(
+  file: string,
+  content: string,
+  overrides: Record<string, string> = {}
+): CommentStyle | null {
+  const base = path.basename(file);
+  const ext = path.extname(base).toLowerCase();
+
+  const override = overrides[base] ?? (ext ? overrides[ext] : undefined);
+  if (override) return parseCommentMarker(override);
+
+  // PHP files that open with markup rather than code take HTML comments
+  if (ext === ".php" && !/^(#!.*\n)?<\?php\b/.test(content)) return XML_BLOCK;
+
+  if (ext && COMMENT_STYLES[ext]) return COMMENT_STYLES[ext];
+  if (FILENAME_STYLES[base]) return FILENAME_STYLES[base];
+
+  const shebang = /^#!\s*(\S+)(?:\s+(?:-S\s+)?(\S+))?/.exec(content);
+  if (shebang) {
+    let interpreter = path.basename(shebang[1]);
+    if (interpreter === "env" && shebang[2]) interpreter = shebang[2];
+    const style = SHEBANG_STYLES[interpreter.replace(/[\d.]+$/, "")];
+    if (style) return style;
+  }
+
+  return null;
+}
+
+/**
+ * Suffix of a REUSE sidecar: "logo.png.license" carries the licensing info
+ * of "logo.png", which has no comment syntax to hold a header.
+ */
+export const SIDECAR_SUFFIX = ".license";
+
+/** The SPDX tag and one copyright line per holder, without comment markers. */
+function headerLines(spdx: string, holders: Holder[]): string[] {
+  return [
+    `SPDX-License-Identifier: ${spdx}`,
+    ...holders.map((h) => `Copyright (c) ${h.years} ${h.name}`),
+  ];
+}
+
+function renderHeader(
+  style: CommentStyle,
+  spdx: string,
+  holders: Holder[],
+  eol: string
+): string {
+  const commented = headerLines(spdx, holders).map((line) => {
+    if (style.line) return `${style.line} ${line}`;
+    const [open, close] = style.block!;
+    return `${open} ${line} ${close}`;
+  });
+  return commented.join(eol) + eol;
+}
+
+/** Split off the lines that must stay above the header. */
+function splitPreamble(content: string): [string, string] {
+  let offset = 0;
+  let lineNo = 0;
+
+  while (offset < content.length) {
+    const end = content.indexOf("\n", offset);
+    const next = end === -1 ? content.length : end + 1;
+    const line = content.substring(offset, next).replace(/\r?\n$/, "");
+    const keep = PREAMBLE_PATTERNS.some(
+      ({ pattern, maxLine }) => lineNo <= maxLine && pattern.test(line)
+    );
+    if (!keep) break;
+    offset = next;
+    lineNo++;
+  }
+
+  return [content.substring(0, offset), content.substring(offset)];
+}
+
+/** Expand header globs (with "!" exclusions) into a sorted file list. */
+function collectFiles(globs: string[], cwd = process.cwd()): string[] {
+  return glob(globs, cwd);
+}
+
+/** How far into a file we look for an existing license header. */
+const HEADER_SCAN_LINES = 20;
+
+const HEADER_MARKER =
+  /SPDX-License-Identifier:|SPDX-FileCopyrightText:|Copyright\b|©/i;
+
+/** A trailing block-comment closer such as "-->" or "#}". */
+const COMMENT_CLOSER = /\s+[^\w\s.)+]+\s*$/;
+
+interface ParsedHeader {
+  /** Expression from the SPDX-License-Identifier tag, or null if absent. */
+  spdx: string | null;
+  /** Copyright lines near the top of the file, comment markers removed. */
+  copyright: string[];
+}
+
+/**
+ * The SPDX tag or copyright text on a line, without the comment markers
+ * around it. Works for any comment syntax, including configured ones.
+ */
+function headerText(line: string): string {
+  const start = line.search(HEADER_MARKER);
+  if (start === -1) return "";
+  return line.substring(start).replace(COMMENT_CLOSER, "").trim();
+}
+
+export function parseHeader(content: string): ParsedHeader {
+  const lines = content.split(/\r?\n/, HEADER_SCAN_LINES).map(headerText);
+  const tag = lines.find((line) => line.startsWith("SPDX-License-Identifier:"));
+
+  return {
+    spdx: tag ? tag.substring("SPDX-License-Identifier:".length).trim() : null,
+    // REUSE tags may leave out the year; other lines need one and a holder,
+    // so prose that merely starts with "copyright" isn't taken for a notice
+    copyright: lines.filter(
+      (line) =>
+        line.startsWith("SPDX-FileCopyrightText:") || COPYRIGHT_LINE.test(line)
+    ),
+  };
+}
+
+/**
+ * A well-formed copyright line: marker, year or year range, then a holder.
+ * Captures the start year, optional end year and the holder.
+ */
+export const COPYRIGHT_LINE =
+  /^(?:SPDX-FileCopyrightText:\s*)?(?:Copyright\s*)?(?:\(c\)|©)?\s*(\d{4})(?:\s*-\s*(\d{4}))?,?\s+(\S.*)$/i;
+
+/** Widen a "2021" or "2021-2024" range so it also covers `year`. */
+function extendYears(
+  start: string,
+  end: string | undefined,
+  year: string
+): string {
+  const given = year.match(/\d{4}/g) ?? [];
+  const years = [start, end ?? start, ...given].map(Number);
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+/**
+ * Rewrite an existing header in place: swap the SPDX identifier, extend the
+ * year range on each holder's copyright line (adding lines for holders not
+ * yet listed) and keep every other line, including other holders, as is.
+ */
+export function updateHeader(
+  content: string,
+  spdx: string,
+  holders: Holder[]
+): string {
+  const lines = content.split("\n");
+  const limit = Math.min(lines.length, HEADER_SCAN_LINES);
+  // The tag text up to any closing comment delimiter
+  const tagText = /SPDX-License-Identifier:.*?(?=(?:\s+[^\w\s.)+]+)?\s*\r?$)/;
+
+  let tagLine = -1;
+  let lastCopyright = -1;
+  const listed = new Set<Holder>();
+  for (let i = 0; i < limit; i++) {
+    const text = headerText(lines[i]);
+    if (text.startsWith("SPDX-License-Identifier:")) {
+      tagLine = i;
+      continue;
+    }
+    const match = COPYRIGHT_LINE.exec(text);
+    if (!match) continue;
+    lastCopyright = i;
+    const holder = holders.find(
+      (h) => h.name.trim().toLowerCase() === match[3].trim().toLowerCase()
+    );
+    if (holder) {
+      listed.add(holder);
+      lines[i] = lines[i].replace(
+        /\d{4}(?:\s*-\s*\d{4})?/,
+        extendYears(match[1], match[2], holder.years)
+      );
+    }
+  }
+
+  if (tagLine === -1) return content;
+
+  const tag = lines[tagLine];
+  lines[tagLine] = tag.replace(tagText, `SPDX-License-Identifier: ${spdx}`);
+
+  // Reuse the tag line's comment markers for new copyright lines
+  const added = holders
+    .filter((h) => !listed.has(h))
+    .map((h) => tag.replace(tagText, `Copyright (c) ${h.years} ${h.name}`));
+  lines.splice(Math.max(tagLine, lastCopyright) + 1, 0, ...added);
+
+  return lines.join("\n");
+}
+
+export interface HeaderOptions {
+  spdx: string;
+  holders: Holder[];
+  /** Per-file holders, overriding `holders` (--file-years). */
+  holdersFor?: (file: string) => Holder[];
+  /** Rewrite headers that already exist (--update-headers). */
+  update?: boolean;
+  /** Compute the changes without writing anything (--dry-run). */
+  dryRun?: boolean;
+  /** Comment markers by extension or filename, overriding the built-ins. */
+  styles?: Record<string, string>;
+  /**
+   * Give files with unknown comment syntax a ".license" sidecar instead of
+   * skipping them, and treat existing sidecars as their headers (REUSE).
+   */
+  sidecars?: boolean;
+  /** Directory the globs are relative to. Default process.cwd(). */
+  cwd?: string;
+}
+
+export interface HeaderChange {
+  file: string;
+  before: string;
+  after: string;
+}
+
+export interface HeaderResult {
+  /** Every file whose content changes, with old and new content. */
+  changes: HeaderChange[];
+  /** Files that received a new header. */
+  added: string[];
+  /** Files whose existing header was rewritten by --update-headers. */
+  updated: string[];
+  /** Sidecar files created for files that can't hold a header. */
+  sidecars: string[];
+  /** Files left untouched because their comment syntax is unknown. */
+  unsupported: string[];
+}
+
+export function addSPDXHeaders(
+  globs: string[],
+  options: HeaderOptions
+): HeaderResult {
+  const { spdx } = options;
+  const result: HeaderResult = {
+    changes: [],
+    added: [],
+    updated: [],
+    sidecars: [],
+    unsupported: [],
+  };
+
+  const apply = (file: string, before: string, after: string): void => {
+    if (!options.dryRun) fs.writeFileSync(file, after);
+    result.changes.push({ file, before, after });
+  };
+
+  for (const file of collectFiles(globs, options.cwd)) {
+    try {
+      const holders = options.holdersFor?.(file) ?? options.holders;
+      // A sidecar takes the place of the file's own header
+      const sidecar = `${file}${SIDECAR_SUFFIX}`;
+      const target =
+        options.sidecars && fs.existsSync(sidecar) ? sidecar : file;
+      const content = fs.readFileSync(target, "utf-8");
+      if (target === sidecar || parseHeader(content).spdx !== null) {
+        if (!options.update) continue;
+        const updated = updateHeader(content, spdx, holders);
+        if (updated !== content) {
+          apply(target, content, updated);
+          result.updated.push(target);
+        }
+        continue;
+      }
+
+      const style = commentStyleFor(file, content, options.styles);
+      if (!style && options.sidecars) {
+        apply(sidecar, "", headerLines(spdx, holders).join("\n") + "\n");
+        result.sidecars.push(sidecar);
+        continue;
+      }
+      if (!style) {
+        result.unsupported.push(file);
+        continue;
+      }
+
+      const eol = content.includes("\r\n") ? "\r\n" : "\n";
+      const header = renderHeader(style, spdx, holders, eol);
+      const [preamble, rest] = splitPreamble(content);
+      if (preamble) {
+        const sep = preamble.endsWith("\n") ? "" : eol;
+        apply(file, content, preamble + sep + eol + header + eol + rest);
+      } else {
+        apply(file, content, header + eol + content);
+      }
+      result.added.push(file);
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  return result;
+}
+
+// ── Check ───────────────────────────────────────────────────────────────────
+
+export type HeaderIssue = "missing" | "mismatch" | "malformed-copyright";
+
+export interface HeaderCheck {
+  file: string;
+  /** Identifier found in the file, or null if there is no SPDX tag. */
+  spdx: string | null;
+  /**
+   * The file's comment syntax is unknown and it has no ".license" sidecar,
+   * so it can't carry a header and isn't checked.
+   */
+  unsupported: boolean;
+  issues: HeaderIssue[];
+  /** Human-readable description of each issue, in the same order. */
+  messages: string[];
+}
+
+export interface CheckOptions {
+  /** Comment markers by extension or filename, overriding the built-ins. */
+  styles?: Record<string, string>;
+  /** Directory the globs are relative to. Default process.cwd(). */
+  cwd?: string;
+}
+
+export function checkSPDXHeaders(
+  globs: string[],
+  spdx: string,
+  options: CheckOptions = {}
+): HeaderCheck[] {
+  const checks: HeaderCheck[] = [];
+
+  const files = collectFiles(globs, options.cwd);
+  const matched = new Set(files);
+  for (const file of files) {
+    // A sidecar carries the header of a file that can't hold one, and is
+    // checked as that file
+    const subject = file.slice(0, -SIDECAR_SUFFIX.length);
+    if (file.endsWith(SIDECAR_SUFFIX) && matched.has(subject)) continue;
+    const sidecar = `${file}${SIDECAR_SUFFIX}`;
+    const target = fs.existsSync(sidecar) ? sidecar : file;
+    let content: string;
+    try {
+      content = fs.readFileSync(target, "utf-8");
+    } catch {
+      continue;
+    }
+
+    const header = parseHeader(content);
+    const check: HeaderCheck = {
+      file,
+      spdx: header.spdx,
+      unsupported: false,
+      issues: [],
+      messages: [],
+    };
+
+    // Files that can't hold a header are reported, not failed, as --headers
+    // leaves them alone too
+    if (
+      header.spdx === null &&
+      target === file &&
+      !commentStyleFor(file, content, options.styles)
+    ) {
+      check.unsupported = true;
+      checks.push(check);
+      continue;
+    }
+
+    if (header.spdx === null) {
+      check.issues.push("missing");
+      check.messages.push("missing SPDX-License-Identifier");
+    } else if (!sameExpression(header.spdx, spdx)) {
+      check.issues.push("mismatch");
+      check.messages.push(`identifier is ${header.spdx}, expected ${spdx}`);
+    }
+
+    if (header.spdx !== null) {
+      if (header.copyright.length === 0) {
+        check.issues.push("malformed-copyright");
+        check.messages.push("missing copyright line");
+      }
+      for (const line of header.copyright) {
+        if (!COPYRIGHT_LINE.test(line)) {
+          check.issues.push("malformed-copyright");
+          check.messages.push(`malformed copyright line: "${line}"`);
+        }
+      }
+    }
+
+    checks.push(check);
+  }
+
+  return checks;
+}
@@ -0,0 +1,178 @@
+// ── Copyright Holders ───────────────────────────────────────────────────────
+//
+// Who holds the copyright and since when, detected from git and package.json
+// when not given explicitly.
+
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface Holder {
+  name: string;
+  /** A single year or a range such as "2019-2026". */
+  years: string;
+}
+
+/** Run git in `cwd`; null if git is missing or fails. */
+export function runGit(args: string[], cwd = process.cwd()): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 256 * 1024 * 1024,
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/** The name detectName falls back to when git and package.json have none. */
+export const PLACEHOLDER_NAME = "Your Name";
+
+/** The git user name, else package.json's author, else a placeholder. */
+export function detectName(cwd = process.cwd()): string {
+  // Try git config
+  const name = runGit(["config", "user.name"], cwd);
+  if (name) return name;
+
+  // Try package.json
+  try {
+    const pkgPath = path.join(cwd, "package.json");
+    if (fs.existsSync(pkgPath)) {
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+      if (typeof pkg.author === "string" && pkg.author) return pkg.author;
+      if (pkg.author?.name) return pkg.author.name;
+    }
+  } catch {}
+
+  return PLACEHOLDER_NAME;
+}
+
+/**
+ * Whether git history can tell us when things started: false outside a repo,
+ * in a repo with no commits yet, and in shallow clones, whose oldest commit
+ * is only where the clone was cut off.
+ */
+function hasFullHistory(cwd: string): boolean {
+  if (runGit(["rev-parse", "--verify", "HEAD"], cwd) === null) return false;
+  return runGit(["rev-parse", "--is-shallow-repository"], cwd) !== "true";
+}
+
+/**
+ * Year of the repository's first commit. Without git history, the earliest
+ * year in package.json's `copyright` field ("Copyright © 2019 Acme Corp", as
+ * electron-builder uses it). Null if neither is available.
+ */
+export function detectStartYear(cwd = process.cwd()): number | null {
+  if (!hasFullHistory(cwd)) return packageStartYear(cwd);
+
+  const out = runGit(
+    ["log", "--max-parents=0", "--format=%ad", "--date=format:%Y"],
+    cwd
+  );
+  const years = (out ?? "").split("\n").map(Number).filter(Boolean);
+  return years.length > 0 ? Math.min(...years) : packageStartYear(cwd);
+}
+
+function packageStartYear(cwd: string): number | null {
+  try {
+    const pkgPath = path.join(cwd, "package.json");
+    if (!fs.existsSync(pkgPath)) return null;
+    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+    if (typeof pkg.copyright !== "string") return null;
+    const years = (pkg.copyright.match(/\b(?:19|20)\d{2}\b/g) ?? []).map(
+      Number
+    );
+    return years.length > 0 ? Math.min(...years) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Year each file was first committed, keyed by real absolute path. Renames
+ * count as new files. Empty when history is unavailable.
+ */
+function detectFileStartYears(cwd: string): Map<string, number> {
+  const years = new Map<string, number>();
+  const root = hasFullHistory(cwd)
+    ? runGit(["rev-parse", "--show-toplevel"], cwd)
+    : null;
+  if (!root) return years;
+
+  const out = runGit(
+    [
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "--diff-filter=A",
+      "--format=%x00%ad",
+      "--date=format:%Y",
+      "--name-only",
+    ],
+    cwd
+  );
+
+  let year = 0;
+  for (const line of (out ?? "").split("\n")) {
+    if (line.startsWith("\0")) {
+      year = Number(line.substring(1));
+    } else if (line && year) {
+      const file = path.join(root, line);
+      const seen = years.get(file);
+      if (seen === undefined || year < seen) years.set(file, year);
+    }
+  }
+
+  return years;
+}
+
+/** "2019" and "2026" become "2019-2026"; equal years collapse to one. */
+export function yearRange(start: number, end: number): string {
+  return start >= end ? `${end}` : `${start}-${end}`;
+}
+
+/**
+ * Turn holder specs into holders. A spec may start with its own year or
+ * range ("2015-2018 Upstream Author"); otherwise `defaultYears` applies.
+ */
+export function parseHolders(specs: string[], defaultYears: string): Holder[] {
+  return specs.map((spec) => {
+    const match = /^(\d{4}(?:\s*-\s*\d{4})?),?\s+(.+)$/.exec(spec.trim());
+    return match
+      ? { name: match[2], years: match[1].replace(/\s+/g, "") }
+      : { name: spec.trim(), years: defaultYears };
+  });
+}
+
+/**
+ * Holders for each file, with default years running from the file's first
+ * commit to now; files not committed yet get the current year. Returns null
+ * when there is no git history to go on.
+ */
+export function fileHolders(
+  names: string[],
+  cwd = process.cwd()
+): ((file: string) => Holder[]) | null {
+  const years = detectFileStartYears(cwd);
+  if (years.size === 0) return null;
+
+  const current = new Date().getFullYear();
+  return (file) => {
+    let real = file;
+    try {
+      real = fs.realpathSync(file);
+    } catch {}
+    return parseHolders(names, yearRange(years.get(real) ?? current, current));
+  };
+}
+
+/** One copyright line per holder, joined so each continues at `indent`. */
+export function copyright(
+  holders: Holder[],
+  format: (holder: Holder) => string,
+  indent = ""
+): string {
+  return holders.map(format).join(`\n${indent}`);
+}
@@ -0,0 +1,1081 @@
+// ── License Templates ───────────────────────────────────────────────────────
+
+import { Holder, copyright } from "./holders";
+import { GPL_3_0 } from "./texts/gpl-3.0";
+import { GPL_2_0 } from "./texts/gpl-2.0";
+import { LGPL_3_0 } from "./texts/lgpl-3.0";
+import { LGPL_2_1 } from "./texts/lgpl-2.1";
+import { AGPL_3_0 } from "./texts/agpl-3.0";
+import { MPL_2_0 } from "./texts/mpl-2.0";
+import { EPL_2_0 } from "./texts/epl-2.0";
+import { ARTISTIC_2_0 } from "./texts/artistic-2.0";
+import { EUPL_1_2 } from "./texts/eupl-1.2";
+import { CDDL_1_0 } from "./texts/cddl-1.0";
+import { CC_BY_4_0 } from "./texts/cc-by-4.0";
+import { CC_BY_SA_4_0 } from "./texts/cc-by-sa-4.0";
+
+/** What the license lets you do. */
+export type Permission =
+  | "commercial-use"
+  | "modifications"
+  | "distribution"
+  | "private-use"
+  | "patent-use";
+
+/** What you must do in return. */
+export type Condition =
+  | "include-copyright"
+  | "document-changes"
+  | "disclose-source"
+  | "network-use-disclose"
+  | "same-license";
+
+/** What the license does not give you. */
+export type Limitation = "liability" | "warranty" | "trademark-use" | "patent-use";
+
+/**
+ * How far the same-license requirement reaches: "weak" covers the licensed
+ * files or library only, "strong" the whole combined work.
+ */
+export type Copyleft = "none" | "weak" | "strong";
+
+export const PERMISSIONS: Permission[] = [
+  "commercial-use",
+  "modifications",
+  "distribution",
+  "private-use",
+  "patent-use",
+];
+
+export const CONDITIONS: Condition[] = [
+  "include-copyright",
+  "document-changes",
+  "disclose-source",
+  "network-use-disclose",
+  "same-license",
+];
+
+export const LIMITATIONS: Limitation[] = [
+  "liability",
+  "warranty",
+  "trademark-use",
+  "patent-use",
+];
+
+export const COPYLEFT: Copyleft[] = ["none", "weak", "strong"];
+
+export interface LicenseInfo {
+  name: string;
+  spdx: string;
+  osiApproved: boolean;
+  /** Listed as a free (libre) license by the Free Software Foundation. */
+  fsfLibre: boolean;
+  /** Reference page for the license text. */
+  url: string;
+  copyleft: Copyleft;
+  permissions: Permission[];
+  conditions: Condition[];
+  limitations: Limitation[];
+  template: (holders: Holder[]) => string;
+}
+
+// Permissions and limitations most licenses share
+const FREEDOMS: Permission[] = [
+  "commercial-use",
+  "modifications",
+  "distribution",
+  "private-use",
+];
+const WITH_PATENTS: Permission[] = [...FREEDOMS, "patent-use"];
+const NO_WARRANTY: Limitation[] = ["liability", "warranty"];
+
+// Copyright placeholders as they appear in each GNU "How to Apply" appendix
+const GNU_V3_COPYRIGHT = "Copyright (C) <year>  <name of author>";
+const GPL_2_0_COPYRIGHT = "Copyright (C) yyyy name of author";
+const LGPL_2_1_COPYRIGHT = "Copyright (C) year  name of author";
+
+/**
+ * Build the template for a GNU license: the canonical text with the copyright
+ * line of its "How to Apply" notice filled in. For "-only" variants the
+ * notice's "or (at your option) any later version" clause is dropped so it
+ * agrees with the SPDX identifier; the license terms themselves are untouched.
+ */
+function gnuTemplate(
+  text: string,
+  placeholder: string,
+  orLater: boolean
+): LicenseInfo["template"] {
+  const start = text.indexOf(placeholder);
+  const head = text.substring(0, start);
+  let rest = text.substring(start + placeholder.length);
+  if (!orLater) {
+    rest = rest.replace(
+      /([,;]) either (version [\d.]+ of the License), or \(at your option\) any later version\./,
+      "$1 $2."
+    );
+  }
+  // Keep the placeholder's own spacing and indentation for every holder
+  const gap = /^Copyright \(C\) \S+(\s+)/.exec(placeholder)?.[1] ?? " ";
+  const indent = /[ \t]*$/.exec(head)?.[0] ?? "";
+  const format = (h: Holder) => `Copyright (C) ${h.years}${gap}${h.name}`;
+  return (holders) => head + copyright(holders, format, indent) + rest;
+}
+
+/**
+ * Build the template for the LGPL-3.0. Its text embeds the GPL-3.0, whose
+ * "How to Apply" notice would put the program under the GPL, so that stays
+ * untouched and the copyright lines go above the license instead.
+ */
+function lgplTemplate(text: string): LicenseInfo["template"] {
+  const format = (h: Holder) => `Copyright (C) ${h.years}  ${h.name}`;
+  return (holders) => `${copyright(holders, format)}\n\n${text}`;
+}
+
+export const LICENSES: Record<string, LicenseInfo> = {
+  mit: {
+    name: "MIT License",
+    spdx: "MIT",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/MIT.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    template: (holders) => `MIT License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years} ${h.name}`)}
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.
+`,
+  },
+  "apache-2.0": {
+    name: "Apache License 2.0",
+    spdx: "Apache-2.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/Apache-2.0.html",
+    copyleft: "none",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright", "document-changes"],
+    limitations: ["trademark-use", "liability", "warranty"],
+    template: (holders) => `                                 Apache License
+                           Version 2.0, January 2004
+                        http://www.apache.org/licenses/
+
+   TERMS AND CONDITIONS FOR USE, REPRODUCTION, AND DISTRIBUTION
+
+   1. Definitions.
+
+      "License" shall mean the terms and conditions for use, reproduction,
+      and distribution as defined by Sections 1 through 9 of this document.
+
+      "Licensor" shall mean the copyright owner or entity authorized by
+      the copyright owner that is granting the License.
+
+      "Legal Entity" shall mean the union of the acting entity and all
+      other entities that control, are controlled by, or are under common
+      control with that entity. For the purposes of this definition,
+      "control" means (i) the power, direct or indirect, to cause the
+      direction or management of such entity, whether by contract or
+      otherwise, or (ii) ownership of fifty percent (50%) or more of the
+      outstanding shares, or (iii) beneficial ownership of such entity.
+
+      "You" (or "Your") shall mean an individual or Legal Entity
+      exercising permissions granted by this License.
+
+      "Source" form shall mean the preferred form for making modifications,
+      including but not limited to software source code, documentation
+      source, and configuration files.
+
+      "Object" form shall mean any form resulting from mechanical
+      transformation or translation of a Source form, including but
+      not limited to compiled object code, generated documentation,
+      and conversions to other media types.
+
+      "Work" shall mean the work of authorship, whether in Source or
+      Object form, made available under the License, as indicated by a
+      copyright notice that is included in or attached to the work.
+
+      "Derivative Works" shall mean any work, whether in Source or Object
+      form, that is based on (or derived from) the Work and for which the
+      editorial revisions, annotations, elaborations, or other modifications
+      represent, as a whole, an original work of authorship. For the purposes
+      of this License, Derivative Works shall not include works that remain
+      separable from, or merely link (or bind by name) to the interfaces of,
+      the Work and Derivative Works thereof.
+
+      "Contribution" shall mean any work of authorship, including
+      the original version of the Work and any modifications or additions
+      to that Work or Derivative Works thereof, that is intentionally
+      submitted to the Licensor for inclusion in the Work by the copyright owner
+      or by an individual or Legal Entity authorized to submit on behalf of
+      the copyright owner. For the purposes of this definition, "submitted"
+      means any form of electronic, verbal, or written communication sent
+      to the Licensor or its representatives, including but not limited to
+      communication on electronic mailing lists, source code control systems,
+      and issue tracking systems that are managed by, or on behalf of, the
+      Licensor for the purpose of discussing and improving the Work, but
+      excluding communication that is conspicuously marked or otherwise
+      designated in writing by the copyright owner as "Not a Contribution."
+
+      "Contributor" shall mean Licensor and any individual or Legal Entity
+      on behalf of whom a Contribution has been received by the Licensor and
+      subsequently incorporated within the Work.
+
+   2. Grant of Copyright License. Subject to the terms and conditions of
+      this License, each Contributor hereby grants to You a perpetual,
+      worldwide, non-exclusive, no-charge, royalty-free, irrevocable
+      copyright license to reproduce, prepare Derivative Works of,
+      publicly display, publicly perform, sublicense, and distribute the
+      Work and such Derivative Works in Source or Object form.
+
+   3. Grant of Patent License. Subject to the terms and conditions of
+      this License, each Contributor hereby grants to You a perpetual,
+      worldwide, non-exclusive, no-charge, royalty-free, irrevocable
+      (except as stated in this section) patent license to make, have made,
+      use, offer to sell, sell, import, and otherwise transfer the Work,
+      where such license applies only to those patent claims licensable
+      by such Contributor that are necessarily infringed by their
+      Contribution(s) alone or by combination of their Contribution(s)
+      with the Work to which such Contribution(s) was submitted. If You
+      institute patent litigation against any entity (including a
+      cross-claim or counterclaim in a lawsuit) alleging that the Work
+      or a Contribution incorporated within the Work constitutes direct
+      or contributory patent infringement, then any patent licenses
+      granted to You under this License for that Work shall terminate
+      as of the date such litigation is filed.
+
+   4. Redistribution. You may reproduce and distribute copies of the
+      Work or Derivative Works thereof in any medium, with or without
+      modifications, and in Source or Object form, provided that You
+      meet the following conditions:
+
+      (a) You must give any other recipients of the Work or
+          Derivative Works a copy of this License; and
+
+      (b) You must cause any modified files to carry prominent notices
+          stating that You changed the files; and
+
+      (c) You must retain, in the Source form of any Derivative Works
+          that You distribute, all copyright, patent, trademark, and
+          attribution notices from the Source form of the Work,
+          excluding those notices that do not pertain to any part of
+          the Derivative Works; and
+
+      (d) If the Work includes a "NOTICE" text file as part of its
+          distribution, then any Derivative Works that You distribute must
+          include a readable copy of the attribution notices contained
+          within such NOTICE file, excluding any notices that do not
+          pertain to any part of the Derivative Works, in at least one
+          of the following places: within a NOTICE text file distributed
+          as part of the Derivative Works; within the Source form or
+          documentation, if provided along with the Derivative Works; or,
+          within a display generated by the Derivative Works, if and
+          wherever such third-party notices normally appear. The contents
+          of the NOTICE file are for informational purposes only and
+          do not modify the License. You may add Your own attribution
+          notices within Derivative Works that You distribute, alongside
+          or as an addendum to the NOTICE text from the Work, provided
+          that such additional attribution notices cannot be construed
+          as modifying the License.
+
+      You may add Your own copyright statement to Your modifications and
+      may provide additional or different license terms and conditions
+      for use, reproduction, or distribution of Your modifications, or
+      for any such Derivative Works as a whole, provided Your use,
+      reproduction, and distribution of the Work otherwise complies with
+      the conditions stated in this License.
+
+   5. Submission of Contributions. Unless You explicitly state otherwise,
+      any Contribution intentionally submitted for inclusion in the Work
+      by You to the Licensor shall be under the terms and conditions of
+      this License, without any additional terms or conditions.
+      Notwithstanding the above, nothing herein shall supersede or modify
+      the terms of any separate license agreement you may have executed
+      with Licensor regarding such Contributions.
+
+   6. Trademarks. This License does not grant permission to use the trade
+      names, trademarks, service marks, or product names of the Licensor,
+      except as required for reasonable and customary use in describing the
+      origin of the Work and reproducing the content of the NOTICE file.
+
+   7. Disclaimer of Warranty. Unless required by applicable law or
+      agreed to in writing, Licensor provides the Work (and each
+      Contributor provides its Contributions) on an "AS IS" BASIS,
+      WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or
+      implied, including, without limitation, any warranties or conditions
+      of TITLE, NON-INFRINGEMENT, MERCHANTABILITY, or FITNESS FOR A
+      PARTICULAR PURPOSE. You are solely responsible for determining the
+      appropriateness of using or redistributing the Work and assume any
+      risks associated with Your exercise of permissions under this License.
+
+   8. Limitation of Liability. In no event and under no legal theory,
+      whether in tort (including negligence), contract, or otherwise,
+      unless required by applicable law (such as deliberate and grossly
+      negligent acts) or agreed to in writing, shall any Contributor be
+      liable to You for damages, including any direct, indirect, special,
+      incidental, or consequential damages of any character arising as a
+      result of this License or out of the use or inability to use the
+      Work (including but not limited to damages for loss of goodwill,
+      work stoppage, computer failure or malfunction, or any and all
+      other commercial damages or losses), even if such Contributor
+      has been advised of the possibility of such damages.
+
+   9. Accepting Warranty or Additional Liability. While redistributing
+      the Work or Derivative Works thereof, You may choose to offer,
+      and charge a fee for, acceptance of support, warranty, indemnity,
+      or other liability obligations and/or rights consistent with this
+      License. However, in accepting such obligations, You may act only
+      on Your own behalf and on Your sole responsibility, not on behalf
+      of any other Contributor, and only if You agree to indemnify,
+      defend, and hold each Contributor harmless for any liability
+      incurred by, or claims asserted against, such Contributor by reason
+      of your accepting any such warranty or additional liability.
+
+   END OF TERMS AND CONDITIONS
+
+   ${copyright(holders, (h) => `Copyright ${h.years} ${h.name}`, "   ")}
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+`,
+  },
+  "gpl-3.0-only": {
+    name: "GNU General Public License v3.0 only",
+    spdx: "GPL-3.0-only",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/GPL-3.0-only.html",
+    copyleft: "strong",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(GPL_3_0, GNU_V3_COPYRIGHT, false),
+  },
+  "gpl-3.0-or-later": {
+    name: "GNU General Public License v3.0 or later",
+    spdx: "GPL-3.0-or-later",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/GPL-3.0-or-later.html",
+    copyleft: "strong",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(GPL_3_0, GNU_V3_COPYRIGHT, true),
+  },
+  "gpl-2.0-only": {
+    name: "GNU General Public License v2.0 only",
+    spdx: "GPL-2.0-only",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/GPL-2.0-only.html",
+    copyleft: "strong",
+    permissions: FREEDOMS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(GPL_2_0, GPL_2_0_COPYRIGHT, false),
+  },
+  "gpl-2.0-or-later": {
+    name: "GNU General Public License v2.0 or later",
+    spdx: "GPL-2.0-or-later",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/GPL-2.0-or-later.html",
+    copyleft: "strong",
+    permissions: FREEDOMS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(GPL_2_0, GPL_2_0_COPYRIGHT, true),
+  },
+  "bsd-2-clause": {
+    name: "BSD 2-Clause \"Simplified\" License",
+    spdx: "BSD-2-Clause",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/BSD-2-Clause.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    template: (holders) => `BSD 2-Clause License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years}, ${h.name}`)}
+All rights reserved.
+
+Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.
+
+THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+`,
+  },
+  "bsd-3-clause": {
+    name: "BSD 3-Clause \"New\" or \"Revised\" License",
+    spdx: "BSD-3-Clause",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/BSD-3-Clause.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    template: (holders) => `BSD 3-Clause License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years}, ${h.name}`)}
+All rights reserved.
+
+Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.
+
+3. Neither the name of the copyright holder nor the names of its
+   contributors may be used to endorse or promote products derived from
+   this software without specific prior written permission.
+
+THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+`,
+  },
+  isc: {
+    name: "ISC License",
+    spdx: "ISC",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/ISC.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    template: (holders) => `ISC License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years} ${h.name}`)}
+
+Permission to use, copy, modify, and/or distribute this software for any
+purpose with or without fee is hereby granted, provided that the above
+copyright notice and this permission notice appear in all copies.
+
+THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES WITH
+REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF MERCHANTABILITY
+AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY SPECIAL, DIRECT,
+INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES WHATSOEVER RESULTING FROM
+LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION OF CONTRACT, NEGLIGENCE OR
+OTHER TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR
+PERFORMANCE OF THIS SOFTWARE.
+`,
+  },
+  "mpl-2.0": {
+    name: "Mozilla Public License 2.0",
+    spdx: "MPL-2.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/MPL-2.0.html",
+    copyleft: "weak",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright", "disclose-source", "same-license"],
+    limitations: ["trademark-use", "liability", "warranty"],
+    // Exhibit A has no copyright line; the notice lives in each source file.
+    template: () => MPL_2_0,
+  },
+  "lgpl-3.0-only": {
+    name: "GNU Lesser General Public License v3.0 only",
+    spdx: "LGPL-3.0-only",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/LGPL-3.0-only.html",
+    copyleft: "weak",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: lgplTemplate(LGPL_3_0),
+  },
+  "lgpl-3.0-or-later": {
+    name: "GNU Lesser General Public License v3.0 or later",
+    spdx: "LGPL-3.0-or-later",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/LGPL-3.0-or-later.html",
+    copyleft: "weak",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: lgplTemplate(LGPL_3_0),
+  },
+  "lgpl-2.1-only": {
+    name: "GNU Lesser General Public License v2.1 only",
+    spdx: "LGPL-2.1-only",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/LGPL-2.1-only.html",
+    copyleft: "weak",
+    permissions: FREEDOMS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(LGPL_2_1, LGPL_2_1_COPYRIGHT, false),
+  },
+  "lgpl-2.1-or-later": {
+    name: "GNU Lesser General Public License v2.1 or later",
+    spdx: "LGPL-2.1-or-later",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/LGPL-2.1-or-later.html",
+    copyleft: "weak",
+    permissions: FREEDOMS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(LGPL_2_1, LGPL_2_1_COPYRIGHT, true),
+  },
+  "agpl-3.0-only": {
+    name: "GNU Affero General Public License v3.0 only",
+    spdx: "AGPL-3.0-only",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/AGPL-3.0-only.html",
+    copyleft: "strong",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "network-use-disclose",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(AGPL_3_0, GNU_V3_COPYRIGHT, false),
+  },
+  "agpl-3.0-or-later": {
+    name: "GNU Affero General Public License v3.0 or later",
+    spdx: "AGPL-3.0-or-later",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/AGPL-3.0-or-later.html",
+    copyleft: "strong",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "network-use-disclose",
+      "same-license",
+    ],
+    limitations: NO_WARRANTY,
+    template: gnuTemplate(AGPL_3_0, GNU_V3_COPYRIGHT, true),
+  },
+  unlicense: {
+    name: "The Unlicense",
+    spdx: "Unlicense",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/Unlicense.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: [],
+    limitations: NO_WARRANTY,
+    template: () => `This is free and unencumbered software released into the public domain.
+
+Anyone is free to copy, modify, publish, use, compile, sell, or
+distribute this software, either in source code form or as a compiled
+binary, for any purpose, commercial or non-commercial, and by any
+means.
+
+In jurisdictions that recognize copyright laws, the author or authors
+of this software dedicate any and all copyright interest in the
+software to the public domain. We make this dedication for the benefit
+of the public at large and to the detriment of our heirs and
+successors. We intend this dedication to be an overt act of
+relinquishment in perpetuity of all present and future rights to this
+software under copyright law.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+IN NO EVENT SHALL THE AUTHORS BE LIABLE FOR ANY CLAIM, DAMAGES OR
+OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE,
+ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
+OTHER DEALINGS IN THE SOFTWARE.
+
+For more information, please refer to <https://unlicense.org>
+`,
+  },
+  "cc0-1.0": {
+    name: "Creative Commons Zero v1.0 Universal",
+    spdx: "CC0-1.0",
+    osiApproved: false,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/CC0-1.0.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: [],
+    limitations: ["trademark-use", "patent-use", "liability", "warranty"],
+    template: (holders) => `CC0 1.0 Universal
+
+Statement of Purpose
+
+${copyright(holders, (h) => `Copyright (c) ${h.years} ${h.name}`)}
+
+The person who associated a work with this deed has dedicated the work to the
+public domain by waiving all of his or her rights to the work worldwide under
+copyright law, including all related and neighboring rights, to the extent
+allowed by law.
+
+You can copy, modify, distribute and perform the work, even for commercial
+purposes, all without asking permission.
+
+For more information, see <https://creativecommons.org/publicdomain/zero/1.0/>
+`,
+  },
+  "0bsd": {
+    name: "Zero-Clause BSD",
+    spdx: "0BSD",
+    osiApproved: true,
+    fsfLibre: false,
+    url: "https://spdx.org/licenses/0BSD.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: [],
+    limitations: NO_WARRANTY,
+    template: (holders) => `Zero-Clause BSD
+=============
+
+${copyright(holders, (h) => `Copyright (c) ${h.years} ${h.name}`)}
+
+Permission to use, copy, modify, and/or distribute this software for
+any purpose with or without fee is hereby granted.
+
+THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL
+WARRANTIES WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES
+OF MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE
+FOR ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY
+DAMAGES WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN
+AN ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT
+OF OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+`,
+  },
+  "epl-2.0": {
+    name: "Eclipse Public License 2.0",
+    spdx: "EPL-2.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/EPL-2.0.html",
+    copyleft: "weak",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright", "disclose-source", "same-license"],
+    limitations: NO_WARRANTY,
+    // Exhibit A is a notice for source files, not a copyright line to fill
+    template: () => EPL_2_0,
+  },
+  "bsl-1.0": {
+    name: "Boost Software License 1.0",
+    spdx: "BSL-1.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/BSL-1.0.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    // Copyright notices stay in the source files the license refers to
+    template: () => `Boost Software License - Version 1.0 - August 17th, 2003
+
+Permission is hereby granted, free of charge, to any person or organization
+obtaining a copy of the software and accompanying documentation covered by
+this license (the "Software") to use, reproduce, display, distribute,
+execute, and transmit the Software, and to prepare derivative works of the
+Software, and to permit third-parties to whom the Software is furnished to
+do so, all subject to the following:
+
+The copyright notices in the Software and this entire statement, including
+the above license grant, this restriction and the following disclaimer,
+must be included in all copies of the Software, in whole or in part, and
+all derivative works of the Software, unless such copies or derivative
+works are solely in the form of machine-executable object code generated by
+a source language processor.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE, TITLE AND NON-INFRINGEMENT. IN NO EVENT
+SHALL THE COPYRIGHT HOLDERS OR ANYONE DISTRIBUTING THE SOFTWARE BE LIABLE
+FOR ANY DAMAGES OR OTHER LIABILITY, WHETHER IN CONTRACT, TORT OR OTHERWISE,
+ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+DEALINGS IN THE SOFTWARE.
+`,
+  },
+  zlib: {
+    name: "zlib License",
+    spdx: "Zlib",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/Zlib.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright", "document-changes"],
+    limitations: NO_WARRANTY,
+    template: (holders) => `zlib License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years} ${h.name}`)}
+
+This software is provided 'as-is', without any express or implied
+warranty.  In no event will the authors be held liable for any damages
+arising from the use of this software.
+
+Permission is granted to anyone to use this software for any purpose,
+including commercial applications, and to alter it and redistribute it
+freely, subject to the following restrictions:
+
+1. The origin of this software must not be misrepresented; you must not
+   claim that you wrote the original software. If you use this software
+   in a product, an acknowledgment in the product documentation would be
+   appreciated but is not required.
+2. Altered source versions must be plainly marked as such, and must not be
+   misrepresented as being the original software.
+3. This notice may not be removed or altered from any source distribution.
+`,
+  },
+  "mit-0": {
+    name: "MIT No Attribution",
+    spdx: "MIT-0",
+    osiApproved: true,
+    fsfLibre: false,
+    url: "https://spdx.org/licenses/MIT-0.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: [],
+    limitations: NO_WARRANTY,
+    template: (holders) => `MIT No Attribution
+
+${copyright(holders, (h) => `Copyright ${h.years} ${h.name}`)}
+
+Permission is hereby granted, free of charge, to any person obtaining a copy of this
+software and associated documentation files (the "Software"), to deal in the Software
+without restriction, including without limitation the rights to use, copy, modify,
+merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+permit persons to whom the Software is furnished to do so.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+`,
+  },
+  "artistic-2.0": {
+    name: "Artistic License 2.0",
+    spdx: "Artistic-2.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/Artistic-2.0.html",
+    copyleft: "none",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright", "document-changes"],
+    limitations: ["trademark-use", "liability", "warranty"],
+    // The copyright line in the text is The Perl Foundation's, for the license
+    template: () => ARTISTIC_2_0,
+  },
+  "eupl-1.2": {
+    name: "European Union Public License 1.2",
+    spdx: "EUPL-1.2",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/EUPL-1.2.html",
+    copyleft: "strong",
+    permissions: WITH_PATENTS,
+    conditions: [
+      "include-copyright",
+      "document-changes",
+      "disclose-source",
+      "network-use-disclose",
+      "same-license",
+    ],
+    limitations: ["trademark-use", "liability", "warranty"],
+    template: () => EUPL_1_2,
+  },
+  postgresql: {
+    name: "PostgreSQL License",
+    spdx: "PostgreSQL",
+    osiApproved: true,
+    fsfLibre: false,
+    url: "https://spdx.org/licenses/PostgreSQL.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    template: (holders) => {
+      const owner = holders.map((h) => h.name).join(" and ");
+      return `PostgreSQL License
+
+${copyright(holders, (h) => `Copyright (c) ${h.years}, ${h.name}`)}
+
+Permission to use, copy, modify, and distribute this software and its
+documentation for any purpose, without fee, and without a written agreement
+is hereby granted, provided that the above copyright notice and this
+paragraph and the following two paragraphs appear in all copies.
+
+IN NO EVENT SHALL ${owner} BE LIABLE TO ANY PARTY FOR DIRECT, INDIRECT,
+SPECIAL, INCIDENTAL, OR CONSEQUENTIAL DAMAGES, INCLUDING LOST PROFITS,
+ARISING OUT OF THE USE OF THIS SOFTWARE AND ITS DOCUMENTATION, EVEN IF
+${owner} HAS BEEN ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+
+${owner} SPECIFICALLY DISCLAIMS ANY WARRANTIES, INCLUDING, BUT NOT LIMITED
+TO, THE IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR
+PURPOSE. THE SOFTWARE PROVIDED HEREUNDER IS ON AN "AS IS" BASIS, AND
+${owner} HAS NO OBLIGATIONS TO PROVIDE MAINTENANCE, SUPPORT, UPDATES,
+ENHANCEMENTS, OR MODIFICATIONS.
+`;
+    },
+  },
+  "cddl-1.0": {
+    name: "Common Development and Distribution License 1.0",
+    spdx: "CDDL-1.0",
+    osiApproved: true,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/CDDL-1.0.html",
+    copyleft: "weak",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright", "disclose-source", "same-license"],
+    limitations: ["trademark-use", "liability", "warranty"],
+    template: () => CDDL_1_0,
+  },
+  wtfpl: {
+    name: "Do What The F*ck You Want To Public License",
+    spdx: "WTFPL",
+    osiApproved: false,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/WTFPL.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: [],
+    limitations: [],
+    // The copyright line in the text is Sam Hocevar's, for the license
+    template: () => `            DO WHAT THE FUCK YOU WANT TO PUBLIC LICENSE
+                    Version 2, December 2004
+
+ Copyright (C) 2004 Sam Hocevar <sam@hocevar.net>
+
+ Everyone is permitted to copy and distribute verbatim or modified
+ copies of this license document, and changing it is allowed as long
+ as the name is changed.
+
+            DO WHAT THE FUCK YOU WANT TO PUBLIC LICENSE
+   TERMS AND CONDITIONS FOR COPYING, DISTRIBUTION AND MODIFICATION
+
+  0. You just DO WHAT THE FUCK YOU WANT TO.
+`,
+  },
+  "blueoak-1.0.0": {
+    name: "Blue Oak Model License 1.0.0",
+    spdx: "BlueOak-1.0.0",
+    osiApproved: true,
+    fsfLibre: false,
+    url: "https://spdx.org/licenses/BlueOak-1.0.0.html",
+    copyleft: "none",
+    permissions: WITH_PATENTS,
+    conditions: ["include-copyright"],
+    limitations: NO_WARRANTY,
+    // Contributors are covered by the license itself; there is no notice line
+    template: () => `# Blue Oak Model License
+
+Version 1.0.0
+
+## Purpose
+
+This license gives everyone as much permission to work with
+this software as possible, while protecting contributors
+from liability.
+
+## Acceptance
+
+In order to receive this license, you must agree to its
+rules.  The rules of this license are both obligations
+under that agreement and conditions to your license.
+You must not do anything with this software that triggers
+a rule that you cannot or will not follow.
+
+## Copyright
+
+Each contributor licenses you to do everything with this
+software that would otherwise infringe that contributor's
+copyright in it.
+
+## Notices
+
+You must ensure that everyone who gets a copy of
+any part of this software from you, with or without
+changes, also gets the text of this license or a link to
+<https://blueoakcouncil.org/license/1.0.0>.
+
+## Excuse
+
+If anyone notifies you in writing that you have not
+complied with [Notices](#notices), you can keep your
+license by taking all practical steps to comply within 30
+days after the notice.  If you do not do so, your license
+ends immediately.
+
+## Patent
+
+Each contributor licenses you to do everything with this
+software that would otherwise infringe any patent claims
+they can license or become able to license.
+
+## Reliability
+
+No contributor can revoke this license.
+
+## No Liability
+
+***As far as the law allows, this software comes as is,
+without any warranty or condition, and no contributor
+will be liable to anyone for any damages related to this
+software or this license, under any kind of legal claim.***
+`,
+  },
+  "cc-by-4.0": {
+    name: "Creative Commons Attribution 4.0 International",
+    spdx: "CC-BY-4.0",
+    osiApproved: false,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/CC-BY-4.0.html",
+    copyleft: "none",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright", "document-changes"],
+    limitations: ["trademark-use", "patent-use", "liability", "warranty"],
+    template: () => CC_BY_4_0,
+  },
+  "cc-by-sa-4.0": {
+    name: "Creative Commons Attribution-ShareAlike 4.0 International",
+    spdx: "CC-BY-SA-4.0",
+    osiApproved: false,
+    fsfLibre: true,
+    url: "https://spdx.org/licenses/CC-BY-SA-4.0.html",
+    copyleft: "strong",
+    permissions: FREEDOMS,
+    conditions: ["include-copyright", "document-changes", "same-license"],
+    limitations: ["trademark-use", "patent-use", "liability", "warranty"],
+    template: () => CC_BY_SA_4_0,
+  },
+};
+
+/**
+ * Bare GNU IDs from before the "-only"/"-or-later" split. They resolve to the
+ * "-only" variant, matching what SPDX means by the deprecated bare identifiers.
+ */
+export const LICENSE_ALIASES: Record<string, string> = {
+  "gpl-3.0": "gpl-3.0-only",
+  "gpl-2.0": "gpl-2.0-only",
+  "lgpl-3.0": "lgpl-3.0-only",
+  "lgpl-2.1": "lgpl-2.1-only",
+  "agpl-3.0": "agpl-3.0-only",
+};
+
+/**
+ * Look up a license by ID, case-insensitively. `catalog` defaults to the
+ * built-ins; pass it extended with custom templates to include those.
+ */
+export function resolveLicense(
+  id: string,
+  catalog: Record<string, LicenseInfo> = LICENSES
+): { key: string; license: LicenseInfo; alias?: string } | null {
+  const key = id.toLowerCase();
+  if (catalog[key]) return { key, license: catalog[key] };
+
+  const target = LICENSE_ALIASES[key];
+  if (target) return { key: target, license: LICENSES[target], alias: key };
+
+  return null;
+}
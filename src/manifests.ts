@@ -0,0 +1,153 @@
+// ── Manifests ───────────────────────────────────────────────────────────────
+//
+// Keep the license field of package manifests in step with the LICENSE file:
+// package.json, composer.json, Cargo.toml and pyproject.toml. Edits are made
+// in place so key order, indentation and comments survive.
+
+import * as fs from "fs";
+import * as path from "path";
+import { ManifestError } from "./errors";
+
+export interface ManifestChange {
+  file: string;
+  before: string;
+  after: string;
+}
+
+type Updater = (source: string, spdx: string, file: string) => string;
+
+/** Keys a new `license` goes after, first one present wins. */
+const ANCHOR_KEYS = ["version", "description", "name"];
+
+/**
+ * Set `license` in a JSON manifest. A missing key is added after the
+ * version (or description, or name); `drop` lists stale keys to remove.
+ */
+function updateJson(drop: string[]): Updater {
+  return (source, spdx, file) => {
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(source);
+    } catch (err) {
+      throw new ManifestError(file, `invalid JSON (${(err as Error).message})`);
+    }
+    if (
+      typeof manifest !== "object" ||
+      manifest === null ||
+      Array.isArray(manifest)
+    ) {
+      throw new ManifestError(file, "expected a JSON object");
+    }
+
+    const input = manifest as Record<string, unknown>;
+    // Already right: leave the formatting of a compact file alone too
+    if (input.license === spdx && !drop.some((key) => key in input)) {
+      return source;
+    }
+    const keys = Object.keys(input).filter((key) => !drop.includes(key));
+    if (!keys.includes("license")) {
+      const anchor = ANCHOR_KEYS.find((key) => keys.includes(key));
+      const at = anchor ? keys.indexOf(anchor) + 1 : keys.length;
+      keys.splice(at, 0, "license");
+    }
+    const output: Record<string, unknown> = {};
+    for (const key of keys) output[key] = key === "license" ? spdx : input[key];
+
+    const indent = /^[ \t]+(?=")/m.exec(source)?.[0] ?? "  ";
+    const eol = source.includes("\r\n") ? "\r\n" : "\n";
+    const json = JSON.stringify(output, null, indent).replace(/\n/g, eol);
+    return json + (/\r?\n$/.test(source) ? eol : "");
+  };
+}
+
+/**
+ * Set `license = "<spdx>"` in the first of `tables` the TOML file has. The
+ * line is rewritten if present, else added after `version` or `name`; keys
+ * in `drop` are removed from the table. Files without any of the tables, or
+ * that inherit the license (`license.workspace = true`), are left alone.
+ */
+function updateToml(tables: string[], drop: string[] = []): Updater {
+  return (source, spdx) => {
+    const eol = source.includes("\r\n") ? "\r\n" : "\n";
+    const lines = source.split(/\r?\n/);
+    const header = (line: string) => /^\s*\[/.test(line);
+    const isKey = (line: string, key: string) =>
+      new RegExp(`^\\s*${key}\\s*=`).test(line);
+
+    for (const table of tables) {
+      const name = table.replace(/\./g, "\\s*\\.\\s*");
+      const tableHeader = new RegExp(`^\\s*\\[\\s*${name}\\s*\\]\\s*(?:#.*)?$`);
+      const start = lines.findIndex((line) => tableHeader.test(line));
+      if (start === -1) continue;
+
+      let end = lines.findIndex((line, i) => i > start && header(line));
+      if (end === -1) end = lines.length;
+      const body = lines.slice(start + 1, end);
+      const keyLine = (key: string) =>
+        body.findIndex((line) => isKey(line, key));
+
+      if (body.some((line) => /^\s*license\s*\./.test(line))) return source;
+
+      const entry = `license = "${spdx}"`;
+      const current = keyLine("license");
+      if (current !== -1) {
+        const indent = /^\s*/.exec(body[current])![0];
+        body[current] = indent + entry;
+      } else {
+        const anchor = ["version", "name"]
+          .map(keyLine)
+          .find((index) => index !== -1);
+        body.splice(anchor === undefined ? 0 : anchor + 1, 0, entry);
+      }
+      const kept = body.filter((line) => !drop.some((key) => isKey(line, key)));
+
+      lines.splice(start + 1, end - start - 1, ...kept);
+      return lines.join(eol);
+    }
+    return source;
+  };
+}
+
+/** Manifests we know, by file name. */
+const MANIFESTS: Record<string, Updater> = {
+  // npm's deprecated `licenses` array would contradict the new field
+  "package.json": updateJson(["licenses"]),
+  "composer.json": updateJson([]),
+  // Cargo warns when both `license` and `license-file` are set
+  "Cargo.toml": updateToml(["package", "workspace.package"], ["license-file"]),
+  "pyproject.toml": updateToml(["project", "tool.poetry"]),
+};
+
+export const MANIFEST_FILES = Object.keys(MANIFESTS);
+
+/**
+ * Set the license of one manifest to `spdx`. Returns the change, or null if
+ * the file already says so or isn't a manifest we know.
+ */
+export function updateManifest(
+  file: string,
+  spdx: string,
+  dryRun = false
+): ManifestChange | null {
+  const update = MANIFESTS[path.basename(file)];
+  if (!update) return null;
+
+  const before = fs.readFileSync(file, "utf-8");
+  const after = update(before, spdx, path.basename(file));
+  if (after === before) return null;
+
+  if (!dryRun) fs.writeFileSync(file, after);
+  return { file, before, after };
+}
+
+/** Update every known manifest in `dir` to declare `spdx`. */
+export function updateManifests(
+  dir: string,
+  spdx: string,
+  dryRun = false
+): ManifestChange[] {
+  return MANIFEST_FILES.map((name) => path.join(dir, name))
+    .filter((file) => fs.existsSync(file))
+    .map((file) => updateManifest(file, spdx, dryRun))
+    .filter((change): change is ManifestChange => change !== null);
+}
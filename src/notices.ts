@@ -0,0 +1,361 @@
+// ── Third-Party Notices ─────────────────────────────────────────────────────
+//
+// Collect the license texts and copyright notices of the production
+// dependencies into one attribution file. Packages whose license text is
+// identical share one copy of it, and the output depends only on what is
+// installed, so regenerating it gives the same file.
+
+import * as fs from "fs";
+import * as path from "path";
+import { findLicenseFiles, identifyLicense, splitCopyright } from "./detect";
+import { fileLicense } from "./audit";
+import { Holder } from "./holders";
+import { compareCodePoints, listDependencies } from "./deps";
+import { LICENSES, LicenseInfo } from "./licenses";
+import {
+  expressionTerms,
+  parseExpression,
+  resolveExpression,
+} from "./expression";
+
+export type NoticeFormat = "text" | "markdown" | "html";
+
+export const NOTICE_FORMATS: NoticeFormat[] = ["text", "markdown", "html"];
+
+export interface NoticePackage {
+  name: string;
+  version: string;
+  /** Copyright statements from the package's license files. */
+  copyright: string[];
+  /** The package's NOTICE file, for Apache-2.0 packages that have one. */
+  notice: string | null;
+}
+
+export interface NoticeGroup {
+  /** SPDX identifier of the text, or the license as declared if unknown. */
+  license: string;
+  /** The license text, without copyright statements; null if none found. */
+  text: string | null;
+  packages: NoticePackage[];
+}
+
+export interface NoticeOptions {
+  /** Include dev-only packages. Default false. */
+  dev?: boolean;
+  catalog?: Record<string, LicenseInfo>;
+}
+
+/** NOTICE, NOTICE.txt, NOTICE.md: the files Apache-2.0 section 4(d) covers. */
+const NOTICE_FILE = /^notice(?:\.(?:txt|md))?$/i;
+
+const TITLE = "Third-Party Software Notices";
+
+const MISSING = "No license text was found in these packages.";
+
+const INTRODUCTION =
+  "This project includes the third-party software listed below. Each " +
+  "package's copyright notices are followed by the text of its license.";
+
+function isApache(spdx: string | null): boolean {
+  if (!spdx) return false;
+  return expressionTerms(parseExpression(spdx)).some(
+    (term) => term.id === "Apache-2.0"
+  );
+}
+
+function noticeFile(dir: string): string | null {
+  if (!fs.existsSync(dir)) return null;
+  const name = fs
+    .readdirSync(dir)
+    .sort()
+    .find((file) => NOTICE_FILE.test(file));
+  if (!name) return null;
+  const text = fs.readFileSync(path.join(dir, name), "utf-8");
+  return `${text.replace(/\r\n?/g, "\n").trim()}\n`;
+}
+
+// Fills in catalog texts, as custom templates need a holder. The copyright
+// lines are split off again; where a text names the holder in its terms
+// ("IN NO EVENT SHALL <holder> BE LIABLE"), this reads right for any package
+const ANY_HOLDER: Holder = { name: "the copyright holder", years: "1970" };
+
+/** The catalog texts for a license the package ships no file for. */
+function catalogTexts(
+  spdx: string,
+  catalog: Record<string, LicenseInfo>
+): { license: string; body: string }[] {
+  return resolveExpression(spdx, catalog).licenses.map((entry) => {
+    const text = entry.license.template([ANY_HOLDER]);
+    return {
+      license: entry.license.spdx,
+      body: splitCopyright(text, entry.license).body,
+    };
+  });
+}
+
+/**
+ * Collect the license texts of the dependencies installed in `cwd`, one
+ * group per distinct text. Groups are sorted by license, then by the first
+ * package using them.
+ */
+export function collectNotices(
+  cwd: string,
+  options: NoticeOptions = {}
+): NoticeGroup[] {
+  const catalog = options.catalog ?? LICENSES;
+  const groups = new Map<string, NoticeGroup>();
+  const add = (license: string, text: string | null, pkg: NoticePackage) => {
+    const key = text ?? `\0${license}`;
+    const group = groups.get(key) ?? { license, text, packages: [] };
+    group.packages.push(pkg);
+    groups.set(key, group);
+  };
+
+  const seen = new Set<string>();
+  for (const dep of listDependencies(cwd, { dev: options.dev, catalog })) {
+    // The same version can be installed at several paths
+    const id = `${dep.name}@${dep.version}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const dir = path.join(cwd, dep.path);
+    const files = fs.existsSync(dir) ? findLicenseFiles(dir) : [];
+    const texts = files.map((file) => {
+      const content = fs.readFileSync(file, "utf-8");
+      const match = identifyLicense(content, file, catalog);
+      const license = match.id ? catalog[match.id] : undefined;
+      const { notices, body } = splitCopyright(content, license);
+      const spdx = fileLicense(match) ?? dep.spdx ?? dep.declared;
+      return { license: spdx ?? "Unknown license", body, notices };
+    });
+
+    const pkg: NoticePackage = {
+      name: dep.name,
+      version: dep.version,
+      copyright: [...new Set(texts.flatMap((text) => text.notices))],
+      notice: isApache(dep.spdx) ? noticeFile(dir) : null,
+    };
+    if (texts.length > 0) {
+      for (const text of texts) add(text.license, text.body || null, pkg);
+    } else if (dep.spdx) {
+      for (const text of catalogTexts(dep.spdx, catalog)) {
+        add(text.license, text.body, pkg);
+      }
+    } else {
+      add(dep.declared ?? "Unknown license", null, pkg);
+    }
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      compareCodePoints(a.license, b.license) ||
+      compareCodePoints(a.packages[0].name, b.packages[0].name)
+  );
+}
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+const RULE = "=".repeat(80);
+
+function formatText(groups: NoticeGroup[]): string {
+  const lines = [TITLE.toUpperCase(), "", INTRODUCTION, ""];
+  for (const group of groups) {
+    lines.push(RULE, group.license, RULE, "", "Used by:");
+    for (const pkg of group.packages) {
+      lines.push(`  - ${pkg.name} ${pkg.version}`);
+      for (const line of pkg.copyright) lines.push(`      ${line}`);
+    }
+    lines.push("", group.text ?? `${MISSING}\n`);
+    for (const pkg of group.packages) {
+      if (!pkg.notice) continue;
+      const heading = `-------- NOTICE for ${pkg.name} ${pkg.version} --------`;
+      lines.push(heading, "", pkg.notice);
+    }
+  }
+  return `${lines.join("\n").replace(/\n+$/, "")}\n`;
+}
+
+/** A code fence longer than any run of backticks in `text`. */
+function fence(text: string): string {
+  const runs = text.match(/`+/g) ?? [];
+  const longest = Math.max(0, ...runs.map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+function formatMarkdown(groups: NoticeGroup[]): string {
+  const lines = [`# ${TITLE}`, "", INTRODUCTION, ""];
+  const block = (text: string) => {
+    const marker = fence(text);
+    lines.push(`${marker}text`, text.replace(/\n$/, ""), marker, "");
+  };
+  for (const group of groups) {
+    lines.push(`## ${group.license}`, "");
+    for (const pkg of group.packages) {
+      lines.push(`- **${pkg.name}** ${pkg.version}`);
+      for (const line of pkg.copyright) lines.push(`  - ${line}`);
+    }
+    lines.push("");
+    if (group.text) block(group.text);
+    else lines.push(`_${MISSING}_`, "");
+    for (const pkg of group.packages) {
+      if (!pkg.notice) continue;
+      lines.push(`### NOTICE for ${pkg.name} ${pkg.version}`, "");
+      block(pkg.notice);
+    }
+  }
+  return `${lines.join("\n").replace(/\n+$/, "")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatHtml(groups: NoticeGroup[]): string {
+  const lines = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${TITLE}</title>`,
+    "</head>",
+    "<body>",
+    `<h1>${TITLE}</h1>`,
+    `<p>${INTRODUCTION}</p>`,
+  ];
+  const pre = (text: string) =>
+    lines.push(`<pre>${escapeHtml(text.replace(/\n$/, ""))}</pre>`);
+  for (const group of groups) {
+    lines.push(`<h2>${escapeHtml(group.license)}</h2>`, "<ul>");
+    for (const pkg of group.packages) {
+      const copyright = pkg.copyright.map((line) => `<br>${escapeHtml(line)}`);
+      lines.push(
+        `<li><strong>${escapeHtml(pkg.name)}</strong> ${escapeHtml(pkg.version)}${copyright.join("")}</li>`
+      );
+    }
+    lines.push("</ul>");
+    if (group.text) pre(group.text);
+    else lines.push(`<p><em>${MISSING}</em></p>`);
+    for (const pkg of group.packages) {
+      if (!pkg.notice) continue;
+      lines.push(
+        `<h3>NOTICE for ${escapeHtml(pkg.name)} ${escapeHtml(pkg.version)}</h3>`
+      );
+      pre(pkg.notice);
+    }
+  }
+  lines.push("</body>", "</html>");
+  return `${lines.join("\n")}\n`;
+}
+
+/** Render collected notices as a plain text, Markdown or HTML document. */
+export function formatNotices(
+  groups: NoticeGroup[],
+  format: NoticeFormat = "text"
+): string {
+  if (format === "markdown") return formatMarkdown(groups);
+  if (format === "html") return formatHtml(groups);
+  return formatText(groups);
+}
+
+/** The format an output file's extension implies: .md, .html, else text. */
+export function noticeFormatFor(file: string): NoticeFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".md" || ext === ".markdown") return "markdown";
+  if (ext === ".html" || ext === ".htm") return "html";
+  return "text";
+}
+
+/** Default file name for each format. */
+export function noticeFileName(format: NoticeFormat): string {
+  const ext = { text: "", markdown: ".md", html: ".html" }[format];
+  return `THIRD_PARTY_NOTICES${ext}`;
+}
+
+// ── Apache NOTICE ───────────────────────────────────────────────────────────
+
+/** Starts the part of NOTICE that is rebuilt from the dependencies. */
+const BUNDLED_HEADING = "Notices of bundled Apache-2.0 dependencies:";
+
+export interface NoticeFileOptions extends NoticeOptions {
+  /** The current NOTICE file, whose custom attributions are kept. */
+  existing?: string | null;
+}
+
+/** package.json's productName or name, else the directory's name. */
+export function productName(cwd: string): string {
+  const file = path.join(cwd, "package.json");
+  try {
+    const pkg = JSON.parse(fs.readFileSync(file, "utf-8"));
+    for (const key of ["productName", "name"]) {
+      if (typeof pkg[key] === "string" && pkg[key].trim()) return pkg[key];
+    }
+  } catch {
+    // No usable package.json
+  }
+  return path.basename(path.resolve(cwd));
+}
+
+/**
+ * What a NOTICE file says beyond the parts we write: without its first
+ * paragraph when that holds copyright lines, and without the dependency
+ * notices at the end.
+ */
+function customAttributions(existing: string): string {
+  let lines = existing.replace(/\r\n?/g, "\n").split("\n");
+  const bundled = lines.findIndex((line) => line.trim() === BUNDLED_HEADING);
+  if (bundled !== -1) lines = lines.slice(0, bundled);
+
+  const blank = lines.findIndex((line) => !line.trim());
+  const header = blank === -1 ? lines : lines.slice(0, blank);
+  if (header.some((line) => /^\s*copyright\b/i.test(line))) {
+    lines = blank === -1 ? [] : lines.slice(blank);
+  }
+  return lines
+    .join("\n")
+    .replace(/(?:\n[=-]+)+\s*$/, "")
+    .trim();
+}
+
+/**
+ * The NOTICE file Apache-2.0 section 4(d) refers to: the product name and
+ * its copyright lines, the custom attributions of `existing`, then the
+ * NOTICE files of the Apache-2.0 dependencies installed in `cwd`.
+ */
+export function apacheNotice(
+  cwd: string,
+  holders: Holder[],
+  options: NoticeFileOptions = {}
+): string {
+  const lines = [
+    productName(cwd),
+    ...holders.map((h) => `Copyright ${h.years ? `${h.years} ` : ""}${h.name}`),
+    "",
+  ];
+
+  const custom = options.existing ? customAttributions(options.existing) : "";
+  if (custom) lines.push(custom, "");
+
+  const bundled = new Map<string, NoticePackage>();
+  for (const group of collectNotices(cwd, options)) {
+    for (const pkg of group.packages) {
+      if (pkg.notice) bundled.set(`${pkg.name}@${pkg.version}`, pkg);
+    }
+  }
+  const packages = [...bundled.values()].sort(
+    (a, b) =>
+      compareCodePoints(a.name, b.name) ||
+      compareCodePoints(a.version, b.version)
+  );
+  if (packages.length > 0) {
+    lines.push(RULE, BUNDLED_HEADING, "");
+    for (const pkg of packages) {
+      const title = `${pkg.name} ${pkg.version}`;
+      lines.push(title, "-".repeat(title.length), pkg.notice!);
+    }
+  }
+  return `${lines.join("\n").replace(/\n+$/, "")}\n`;
+}
@@ -0,0 +1,481 @@
+// ── REUSE ───────────────────────────────────────────────────────────────────
+//
+// The REUSE specification (https://reuse.software): license texts in
+// LICENSES/<SPDX-ID>.txt, licensing info in each file's header or in a
+// "<file>.license" sidecar, and REUSE.toml to annotate files in bulk.
+
+import * as fs from "fs";
+import * as path from "path";
+import { ownCopyright } from "./detect";
+import { ExpressionError, ReuseError } from "./errors";
+import {
+  ExpressionFile,
+  ResolvedExpression,
+  expressionTerms,
+  parseExpression,
+} from "./expression";
+import { glob, globToRegExp } from "./glob";
+import { SIDECAR_SUFFIX, parseHeader } from "./headers";
+import { Holder } from "./holders";
+
+export const LICENSES_DIR = "LICENSES";
+
+export const REUSE_TOML = "REUSE.toml";
+
+/**
+ * Files that need no licensing info of their own: the license texts,
+ * sidecars, REUSE.toml, and LICENSE or COPYING files.
+ */
+export const REUSE_IGNORED = [
+  `${LICENSES_DIR}/**`,
+  `**/*${SIDECAR_SUFFIX}`,
+  REUSE_TOML,
+  "**/{LICENSE,LICENCE,COPYING}",
+  "**/{LICENSE,LICENCE,COPYING}{.,-}*",
+];
+
+/** How an annotation combines with the info in the files it covers. */
+export type Precedence = "closest" | "aggregate" | "override";
+
+const PRECEDENCES: Precedence[] = ["closest", "aggregate", "override"];
+
+export interface ReuseAnnotation {
+  /** Globs relative to the project root; "*" stops at "/", "**" doesn't. */
+  paths: string[];
+  precedence: Precedence;
+  copyright: string[];
+  /** License expression, or null for an annotation of copyright only. */
+  license: string | null;
+}
+
+// ── REUSE.toml ──────────────────────────────────────────────────────────────
+
+type TomlValue = string | number | boolean | TomlValue[];
+
+type TomlTable = Record<string, TomlValue>;
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Parse the part of TOML that REUSE.toml uses: top-level keys and
+ * [[annotations]] tables, holding strings, numbers, booleans and arrays.
+ */
+function parseToml(
+  text: string,
+  file: string
+): { root: TomlTable; annotations: TomlTable[] } {
+  const root: TomlTable = {};
+  const annotations: TomlTable[] = [];
+  let table = root;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split("\n").length;
+    throw new ReuseError(file, `line ${line}: ${message}`);
+  };
+  const match = (pattern: RegExp): RegExpExecArray | null => {
+    pattern.lastIndex = pos;
+    const found = pattern.exec(text);
+    if (found) pos = pattern.lastIndex;
+    return found;
+  };
+  // Spaces and a comment; with `lines`, also line breaks
+  const skip = (lines: boolean) =>
+    match(lines ? /(?:\s|#[^\n]*)*/y : /[ \t]*(?:#[^\n]*)?/y);
+
+  const string = (): string => {
+    const quote = text[pos];
+    const delimiter = text.startsWith(quote.repeat(3), pos)
+      ? quote.repeat(3)
+      : quote;
+    pos += delimiter.length;
+    let out = "";
+    while (!text.startsWith(delimiter, pos)) {
+      if (pos >= text.length || (delimiter === quote && text[pos] === "\n")) {
+        fail("unterminated string");
+      }
+      const ch = text[pos++];
+      if (ch !== "\\" || quote === "'") {
+        out += ch;
+        continue;
+      }
+      const unicode = match(/u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})/y);
+      if (unicode) {
+        out += String.fromCodePoint(parseInt(unicode[1] ?? unicode[2], 16));
+      } else if (ESCAPES[text[pos]]) {
+        out += ESCAPES[text[pos++]];
+      } else if (delimiter !== quote && match(/[ \t]*\r?\n\s*/y)) {
+        // A backslash at the end of a line joins it to the next
+      } else {
+        fail(`invalid escape "\\${text[pos] ?? ""}"`);
+      }
+    }
+    pos += delimiter.length;
+    // A newline right after the opening quotes isn't part of the string
+    return delimiter === quote ? out : out.replace(/^\r?\n/, "");
+  };
+
+  const value = (): TomlValue => {
+    if (text[pos] === '"' || text[pos] === "'") return string();
+    if (text[pos] === "[") {
+      pos++;
+      const items: TomlValue[] = [];
+      for (;;) {
+        skip(true);
+        if (text[pos] === "]") break;
+        items.push(value());
+        skip(true);
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== "]") fail('expected "," or "]"');
+      }
+      pos++;
+      return items;
+    }
+    const scalar = match(/(true|false|[+-]?\d[\d_]*)(?=[\s,\]#]|$)/y);
+    if (!scalar) return fail("expected a value");
+    if (scalar[1] === "true" || scalar[1] === "false") {
+      return scalar[1] === "true";
+    }
+    return Number(scalar[1].replace(/_/g, ""));
+  };
+
+  const key = (): string => {
+    if (text[pos] === '"' || text[pos] === "'") return string();
+    const bare = match(/[A-Za-z0-9_-]+/y);
+    return bare ? bare[0] : fail("expected a key");
+  };
+
+  for (;;) {
+    skip(true);
+    if (pos >= text.length) break;
+
+    if (text.startsWith("[[", pos)) {
+      const header = match(/\[\[[ \t]*([A-Za-z0-9_-]+)[ \t]*\]\]/y);
+      if (!header || header[1] !== "annotations") {
+        fail("only [[annotations]] tables are supported");
+      }
+      table = {};
+      annotations.push(table);
+    } else if (text[pos] === "[") {
+      fail("only [[annotations]] tables are supported");
+    } else {
+      const name = key();
+      skip(false);
+      if (text[pos] === ".") fail("dotted keys are not supported");
+      if (text[pos] !== "=") fail('expected "="');
+      pos++;
+      skip(false);
+      if (Object.hasOwn(table, name)) fail(`duplicate key "${name}"`);
+      table[name] = value();
+    }
+
+    skip(false);
+    if (pos < text.length && !match(/\r?\n/y)) fail("expected a new line");
+  }
+
+  return { root, annotations };
+}
+
+/** A string or array of strings, as REUSE.toml allows for most keys. */
+function strings(
+  value: TomlValue | undefined,
+  what: string,
+  fail: (message: string) => never
+): string[] {
+  if (value === undefined) return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((item) => typeof item === "string")) {
+    fail(`${what} must be a string or an array of strings`);
+  }
+  return list as string[];
+}
+
+/** Parse a REUSE.toml file's contents into its annotations. */
+export function parseReuseToml(
+  text: string,
+  file = REUSE_TOML
+): ReuseAnnotation[] {
+  const { root, annotations } = parseToml(text, file);
+  if (root.version !== 1) {
+    throw new ReuseError(file, "version must be 1");
+  }
+
+  return annotations.map((table, i) => {
+    const fail = (message: string): never => {
+      throw new ReuseError(file, `annotation ${i + 1}: ${message}`);
+    };
+    const paths = strings(table.path, '"path"', fail);
+    if (paths.length === 0) fail('"path" is required');
+
+    const precedence = table.precedence ?? "closest";
+    if (!PRECEDENCES.includes(precedence as Precedence)) {
+      fail(`"precedence" must be one of ${PRECEDENCES.join(", ")}`);
+    }
+
+    const licenses = strings(
+      table["SPDX-License-Identifier"],
+      '"SPDX-License-Identifier"',
+      fail
+    );
+    return {
+      paths,
+      precedence: precedence as Precedence,
+      copyright: strings(
+        table["SPDX-FileCopyrightText"],
+        '"SPDX-FileCopyrightText"',
+        fail
+      ),
+      // Several identifiers all apply, as several tags in a file would
+      license:
+        licenses.length > 1
+          ? licenses.map((license) => `(${license})`).join(" AND ")
+          : licenses[0] ?? null,
+    };
+  });
+}
+
+/** The annotations of `cwd`'s REUSE.toml, or none if it has no such file. */
+export function loadReuseToml(cwd: string): ReuseAnnotation[] {
+  const file = path.join(cwd, REUSE_TOML);
+  if (!fs.existsSync(file)) return [];
+  return parseReuseToml(fs.readFileSync(file, "utf-8"), REUSE_TOML);
+}
+
+/** The annotation for a file: of those matching it, the last one wins. */
+function annotationFor(
+  rel: string,
+  annotations: ReuseAnnotation[]
+): ReuseAnnotation | null {
+  let found: ReuseAnnotation | null = null;
+  for (const annotation of annotations) {
+    const covers = annotation.paths.some((pattern) =>
+      globToRegExp(pattern, true).test(rel)
+    );
+    if (covers) found = annotation;
+  }
+  return found;
+}
+
+/**
+ * "!" globs for the files REUSE mode must not give headers or sidecars to:
+ * those in REUSE_IGNORED and those REUSE.toml already licenses.
+ */
+export function reuseExclusions(annotations: ReuseAnnotation[]): string[] {
+  const annotated = annotations
+    .filter((annotation) => annotation.license !== null)
+    .flatMap((annotation) => annotation.paths);
+  return [...REUSE_IGNORED, ...annotated].map((pattern) => `!${pattern}`);
+}
+
+// ── License Texts ───────────────────────────────────────────────────────────
+
+/**
+ * The LICENSES/<SPDX-ID>.txt files for an expression: one per license and
+ * one per exception, each holding only its own text.
+ */
+export function reuseFiles(
+  resolved: ResolvedExpression,
+  holders: Holder[],
+  dir = LICENSES_DIR
+): ExpressionFile[] {
+  const files = new Map<string, ExpressionFile>();
+  const add = (spdx: string, content: string) => {
+    const file = path.join(dir, `${spdx}.txt`);
+    if (!files.has(file)) files.set(file, { file, spdx, content });
+  };
+
+  for (const { license, exception } of resolved.licenses) {
+    add(license.spdx, license.template(holders));
+    if (exception) add(exception.spdx, exception.text);
+  }
+  return [...files.values()];
+}
+
+// ── Lint ────────────────────────────────────────────────────────────────────
+
+export interface ReuseFileInfo {
+  /** Path relative to the project root, with "/" separators. */
+  file: string;
+  /** Where the info comes from; both when an annotation aggregates. */
+  sources: ("header" | "sidecar" | "REUSE.toml")[];
+  /** License expressions that apply to the file. */
+  licenses: string[];
+  copyright: string[];
+}
+
+export interface LicenseUse {
+  /** An identifier, or for bad licenses the whole expression. */
+  license: string;
+  files: string[];
+}
+
+export interface ReuseLintResult {
+  files: ReuseFileInfo[];
+  /** Files with no license expression. */
+  missingLicense: string[];
+  /** Files with no copyright notice. */
+  missingCopyright: string[];
+  /** Expressions that aren't valid SPDX syntax. */
+  badLicenses: LicenseUse[];
+  /** Licenses and exceptions in use without a text in LICENSES/. */
+  missingTexts: LicenseUse[];
+  /** Texts in LICENSES/ that no file uses. */
+  unusedTexts: string[];
+  compliant: boolean;
+}
+
+/** The info in a file's own header, or its sidecar if it has one. */
+function ownInfo(full: string): Omit<ReuseFileInfo, "file"> {
+  const sidecar = fs.existsSync(`${full}${SIDECAR_SUFFIX}`);
+  const content = fs.readFileSync(
+    sidecar ? `${full}${SIDECAR_SUFFIX}` : full,
+    "utf-8"
+  );
+  const header = parseHeader(content);
+  // A LICENSE file's own text may carry a copyright line, like the FSF's
+  const own = sidecar ? () => false : ownCopyright(full, content);
+  const copyright = header.copyright.filter((line) => !own(line));
+  const licenses = header.spdx ? [header.spdx] : [];
+  const found = licenses.length > 0 || copyright.length > 0;
+  return {
+    sources: found ? [sidecar ? "sidecar" : "header"] : [],
+    licenses,
+    copyright,
+  };
+}
+
+/**
+ * The licensing info of one file, `rel` being relative to `cwd`: from its
+ * header or sidecar and the REUSE.toml annotation covering it, if any.
+ */
+export function fileInfo(
+  cwd: string,
+  rel: string,
+  annotations: ReuseAnnotation[]
+): ReuseFileInfo {
+  const annotation = annotationFor(rel, annotations);
+  const own =
+    annotation?.precedence === "override"
+      ? { sources: [], licenses: [], copyright: [] }
+      : ownInfo(path.join(cwd, rel));
+  if (!annotation) return { file: rel, ...own };
+
+  const annotated = {
+    licenses: annotation.license ? [annotation.license] : [],
+    copyright: annotation.copyright,
+  };
+  // "closest" fills in only what the file itself leaves out
+  const pick = (key: "licenses" | "copyright"): string[] =>
+    annotation.precedence === "aggregate"
+      ? [...own[key], ...annotated[key]]
+      : own[key].length > 0
+        ? own[key]
+        : annotated[key];
+  const licenses = pick("licenses");
+  const copyright = pick("copyright");
+
+  const used =
+    annotation.precedence === "aggregate" ||
+    licenses !== own.licenses ||
+    copyright !== own.copyright;
+  return {
+    file: rel,
+    sources: used ? [...own.sources, REUSE_TOML] : own.sources,
+    licenses,
+    copyright,
+  };
+}
+
+/** Identifiers of the license texts in LICENSES/, from their file names. */
+function licenseTexts(cwd: string): string[] {
+  const dir = path.join(cwd, LICENSES_DIR);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => entry.name.replace(/\.[A-Za-z]+$/, ""))
+    .sort();
+}
+
+/**
+ * Check a project against the REUSE specification: every file needs a
+ * license and a copyright notice, from its header, its sidecar or
+ * REUSE.toml, and every license used needs its text in LICENSES/.
+ */
+export function lintReuse(cwd: string): ReuseLintResult {
+  const annotations = loadReuseToml(cwd);
+  const ignored = REUSE_IGNORED.map((pattern) => `!${pattern}`);
+  const files = glob(["**", ...ignored], cwd, { dot: true })
+    .filter((full) => {
+      const stat = fs.lstatSync(full);
+      return !stat.isSymbolicLink() && stat.size > 0;
+    })
+    .map((full) =>
+      fileInfo(
+        cwd,
+        path.relative(cwd, full).split(path.sep).join("/"),
+        annotations
+      )
+    );
+
+  const bad = new Map<string, string[]>();
+  const used = new Map<string, { license: string; files: string[] }>();
+  const use = (id: string, file: string) => {
+    const key = id.toLowerCase();
+    if (!used.has(key)) used.set(key, { license: id, files: [] });
+    const entry = used.get(key)!;
+    if (!entry.files.includes(file)) entry.files.push(file);
+  };
+
+  for (const info of files) {
+    for (const license of info.licenses) {
+      try {
+        for (const term of expressionTerms(parseExpression(license))) {
+          use(term.id.replace(/\+$/, ""), info.file);
+          if (term.exception) use(term.exception, info.file);
+        }
+      } catch (err) {
+        if (!(err instanceof ExpressionError)) throw err;
+        bad.set(license, [...(bad.get(license) ?? []), info.file]);
+      }
+    }
+  }
+
+  const texts = licenseTexts(cwd);
+  const available = new Set(texts.map((id) => id.toLowerCase()));
+  const missingTexts = [...used.entries()]
+    .filter(([key]) => !available.has(key))
+    .map(([, entry]) => entry)
+    .sort((a, b) =>
+      a.license < b.license ? -1 : a.license > b.license ? 1 : 0
+    );
+  const unusedTexts = texts.filter((id) => !used.has(id.toLowerCase()));
+
+  const result = {
+    files,
+    missingLicense: files
+      .filter((info) => info.licenses.length === 0)
+      .map((info) => info.file),
+    missingCopyright: files
+      .filter((info) => info.copyright.length === 0)
+      .map((info) => info.file),
+    badLicenses: [...bad].map(([license, files]) => ({ license, files })),
+    missingTexts,
+    unusedTexts,
+  };
+  const compliant =
+    result.missingLicense.length === 0 &&
+    result.missingCopyright.length === 0 &&
+    result.badLicenses.length === 0 &&
+    missingTexts.length === 0 &&
+    unusedTexts.length === 0;
+  return { ...result, compliant };
+}
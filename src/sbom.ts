@@ -0,0 +1,552 @@
+// ── SBOM ────────────────────────────────────────────────────────────────────
+//
+// An SPDX 2.3 document for the project: the package and its declared
+// license, each file with its checksums and the licensing info in its
+// header, and optionally the dependencies installed from package-lock.json.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ExpressionError } from "./errors";
+import { InstalledPackage, readManifest } from "./deps";
+import { isLicenseFile } from "./detect";
+import {
+  expressionTerms,
+  formatExpression,
+  parseExpression,
+} from "./expression";
+import { Holder } from "./holders";
+import { LICENSES_DIR, ReuseAnnotation, fileInfo } from "./reuse";
+
+export type SbomFormat = "tag-value" | "json";
+
+export const SBOM_FORMATS: SbomFormat[] = ["tag-value", "json"];
+
+/** For a field whose value wasn't determined, or wasn't looked for. */
+const NOASSERTION = "NOASSERTION";
+
+/** For a field with nothing to report, such as a file without a license. */
+const NONE = "NONE";
+
+// Field names follow the SPDX 2.3 JSON schema, so a document serializes
+// to the JSON format as is
+
+export interface SpdxChecksum {
+  algorithm: "SHA1" | "SHA256";
+  checksumValue: string;
+}
+
+export interface SpdxExternalRef {
+  referenceCategory: "PACKAGE-MANAGER";
+  referenceType: "purl";
+  referenceLocator: string;
+}
+
+export interface SpdxPackage {
+  name: string;
+  SPDXID: string;
+  versionInfo?: string;
+  downloadLocation: string;
+  filesAnalyzed: boolean;
+  /** Required when `filesAnalyzed` is true. */
+  packageVerificationCode?: { packageVerificationCodeValue: string };
+  licenseConcluded: string;
+  licenseDeclared: string;
+  /** Licenses found in the package's files. */
+  licenseInfoFromFiles?: string[];
+  copyrightText: string;
+  externalRefs?: SpdxExternalRef[];
+}
+
+export interface SpdxFile {
+  /** Path relative to the project, starting with "./". */
+  fileName: string;
+  SPDXID: string;
+  checksums: SpdxChecksum[];
+  licenseConcluded: string;
+  /** License terms in the file's header, or NONE. */
+  licenseInfoInFiles: string[];
+  copyrightText: string;
+}
+
+export interface SpdxRelationship {
+  spdxElementId: string;
+  relationshipType:
+    | "DESCRIBES"
+    | "CONTAINS"
+    | "DEPENDS_ON"
+    | "DEV_DEPENDENCY_OF";
+  relatedSpdxElement: string;
+}
+
+export interface SpdxDocument {
+  spdxVersion: string;
+  dataLicense: string;
+  SPDXID: string;
+  name: string;
+  documentNamespace: string;
+  creationInfo: { created: string; creators: string[] };
+  packages: SpdxPackage[];
+  files: SpdxFile[];
+  relationships: SpdxRelationship[];
+}
+
+export interface SbomOptions {
+  /** The project's license expression, in catalog spelling. */
+  license: string;
+  holders: Holder[];
+  /** Absolute paths of the files to describe. */
+  files: string[];
+  /** REUSE.toml annotations to apply to the files. */
+  annotations?: ReuseAnnotation[];
+  /** Installed packages to list as dependencies. */
+  dependencies?: InstalledPackage[];
+  /** Defaults to SOURCE_DATE_EPOCH when set, for reproducible builds. */
+  created?: Date;
+}
+
+// ── Building ────────────────────────────────────────────────────────────────
+
+/** "license-gen-1.0.0", as the document's creating tool. */
+function toolName(): string {
+  const manifest = readManifest(path.join(__dirname, ".."));
+  const version = manifest?.version;
+  return typeof version === "string" ? `license-gen-${version}` : "license-gen";
+}
+
+/** "@acme/demo" as "acme-demo": SPDX identifiers allow [A-Za-z0-9.-] only. */
+function slug(name: string): string {
+  return name
+    .replace(/[^A-Za-z0-9.-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function spdxRef(kind: string, name: string, taken: Set<string>): string {
+  const base = `SPDXRef-${kind}-${slug(name)}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+function hash(algorithm: string, data: Buffer | string): string {
+  return crypto.createHash(algorithm).update(data).digest("hex");
+}
+
+/** "pkg:npm/%40scope/name@1.0.0" */
+function purl(name: string, version: string): SpdxExternalRef {
+  const encoded = name.split("/").map(encodeURIComponent).join("/");
+  return {
+    referenceCategory: "PACKAGE-MANAGER",
+    referenceType: "purl",
+    referenceLocator: `pkg:npm/${encoded}@${encodeURIComponent(version)}`,
+  };
+}
+
+/** The repository URL from package.json, if it is a full URL. */
+function downloadLocation(manifest: Record<string, unknown>): string {
+  const repository = manifest.repository;
+  const url =
+    typeof repository === "string"
+      ? repository
+      : (repository as { url?: unknown } | undefined)?.url;
+  if (typeof url === "string" && /^(?:[a-z]+\+)?[a-z]+:\/\/\S+$/i.test(url)) {
+    return url;
+  }
+  return NOASSERTION;
+}
+
+/** Each license term of the file's expressions; an invalid one as is. */
+function licenseTerms(expressions: string[]): string[] {
+  const terms = new Set<string>();
+  for (const expression of expressions) {
+    try {
+      for (const term of expressionTerms(parseExpression(expression))) {
+        terms.add(formatExpression(term));
+      }
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      terms.add(expression);
+    }
+  }
+  return [...terms];
+}
+
+/**
+ * SPDX's package verification code: the SHA-1 of the files' SHA-1s, sorted
+ * and concatenated.
+ */
+function verificationCode(files: SpdxFile[]): string {
+  const sums = files.map(
+    (file) => file.checksums.find((sum) => sum.algorithm === "SHA1")!
+  );
+  return hash("sha1", sums.map((sum) => sum.checksumValue).sort().join(""));
+}
+
+/** A name-based UUID, so the same project and time give the same document. */
+function namespaceId(seed: string): string {
+  const hex = hash("sha1", seed);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+function creationTime(created?: Date): string {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  const fixed = epoch && /^\d+$/.test(epoch) ? new Date(+epoch * 1000) : null;
+  const date = created ?? fixed ?? new Date();
+  // SPDX wants whole seconds: 2026-01-31T12:00:00Z
+  return date.toISOString().replace(/\.\d+Z$/, "Z");
+}
+
+/** Describe the project in `cwd` as an SPDX 2.3 document. */
+export function buildSbom(cwd: string, options: SbomOptions): SpdxDocument {
+  const manifest = readManifest(cwd) ?? {};
+  const name =
+    typeof manifest.name === "string" && manifest.name
+      ? manifest.name
+      : path.basename(path.resolve(cwd));
+  const version =
+    typeof manifest.version === "string" ? manifest.version : undefined;
+  const taken = new Set<string>();
+
+  const files: SpdxFile[] = options.files.map((full) => {
+    const rel = path.relative(cwd, full).split(path.sep).join("/");
+    const info = fileInfo(cwd, rel, options.annotations ?? []);
+    const data = fs.readFileSync(full);
+    const licenses = licenseTerms(info.licenses);
+    return {
+      fileName: `./${rel}`,
+      SPDXID: spdxRef("File", rel, taken),
+      checksums: [
+        { algorithm: "SHA1", checksumValue: hash("sha1", data) },
+        { algorithm: "SHA256", checksumValue: hash("sha256", data) },
+      ],
+      licenseConcluded: NOASSERTION,
+      licenseInfoInFiles: licenses.length > 0 ? licenses : [NONE],
+      // Only a file's first lines are read, and a license text's holder may
+      // come after the terms, as in Apache-2.0's appendix
+      copyrightText:
+        info.copyright.join("\n") ||
+        (isLicenseFile(rel) || rel.startsWith(`${LICENSES_DIR}/`)
+          ? NOASSERTION
+          : NONE),
+    };
+  });
+
+  const found = new Set(
+    files
+      .flatMap((file) => file.licenseInfoInFiles)
+      .filter((license) => license !== NONE)
+  );
+  const root: SpdxPackage = {
+    name,
+    SPDXID: spdxRef("Package", name, taken),
+    ...(version ? { versionInfo: version } : {}),
+    downloadLocation: downloadLocation(manifest),
+    filesAnalyzed: files.length > 0,
+    ...(files.length > 0
+      ? {
+          packageVerificationCode: {
+            packageVerificationCodeValue: verificationCode(files),
+          },
+          licenseInfoFromFiles: found.size > 0 ? [...found].sort() : [NONE],
+        }
+      : {}),
+    licenseConcluded: NOASSERTION,
+    licenseDeclared: options.license,
+    copyrightText:
+      options.holders
+        .map((h) => `Copyright (c) ${h.years} ${h.name}`)
+        .join("\n") || NOASSERTION,
+    ...(version && manifest.name
+      ? { externalRefs: [purl(name, version)] }
+      : {}),
+  };
+
+  const dependencies: SpdxPackage[] = [];
+  const relationships: SpdxRelationship[] = [
+    {
+      spdxElementId: "SPDXRef-DOCUMENT",
+      relationshipType: "DESCRIBES",
+      relatedSpdxElement: root.SPDXID,
+    },
+    ...files.map((file): SpdxRelationship => ({
+      spdxElementId: root.SPDXID,
+      relationshipType: "CONTAINS",
+      relatedSpdxElement: file.SPDXID,
+    })),
+  ];
+  for (const dep of options.dependencies ?? []) {
+    const pkg: SpdxPackage = {
+      name: dep.name,
+      SPDXID: spdxRef("Package", `npm-${dep.name}-${dep.version}`, taken),
+      versionInfo: dep.version,
+      downloadLocation: NOASSERTION,
+      filesAnalyzed: false,
+      licenseConcluded: NOASSERTION,
+      licenseDeclared: dep.spdx ?? NOASSERTION,
+      copyrightText: NOASSERTION,
+      externalRefs: [purl(dep.name, dep.version)],
+    };
+    dependencies.push(pkg);
+    relationships.push(
+      dep.dev
+        ? {
+            spdxElementId: pkg.SPDXID,
+            relationshipType: "DEV_DEPENDENCY_OF",
+            relatedSpdxElement: root.SPDXID,
+          }
+        : {
+            spdxElementId: root.SPDXID,
+            relationshipType: "DEPENDS_ON",
+            relatedSpdxElement: pkg.SPDXID,
+          }
+    );
+  }
+
+  const documentName = version ? `${name}-${version}` : name;
+  const created = creationTime(options.created);
+  const seed = [
+    documentName,
+    created,
+    root.packageVerificationCode?.packageVerificationCodeValue,
+  ].join("\n");
+  return {
+    spdxVersion: "SPDX-2.3",
+    dataLicense: "CC0-1.0",
+    SPDXID: "SPDXRef-DOCUMENT",
+    name: documentName,
+    documentNamespace: `https://spdx.org/spdxdocs/${slug(documentName)}-${namespaceId(seed)}`,
+    creationInfo: { created, creators: [`Tool: ${toolName()}`] },
+    packages: [root, ...dependencies],
+    files,
+    relationships,
+  };
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+const SPDX_ID = /^SPDXRef-[A-Za-z0-9.-]+$/;
+
+/** A license field: NONE, NOASSERTION or a valid expression. */
+function validLicense(value: string | undefined): boolean {
+  if (value === NONE || value === NOASSERTION) return true;
+  if (!value) return false;
+  try {
+    parseExpression(value);
+    return true;
+  } catch (err) {
+    if (!(err instanceof ExpressionError)) throw err;
+    return false;
+  }
+}
+
+/**
+ * Check a document against the fields SPDX 2.3 requires, and the format of
+ * each. Returns one message per problem; none when the document is valid.
+ */
+export function validateSbom(doc: SpdxDocument): string[] {
+  const problems: string[] = [];
+  const require = (ok: unknown, message: string) => {
+    if (!ok) problems.push(message);
+  };
+
+  require(doc.spdxVersion === "SPDX-2.3", "SPDXVersion must be SPDX-2.3");
+  require(doc.dataLicense === "CC0-1.0", "DataLicense must be CC0-1.0");
+  require(
+    doc.SPDXID === "SPDXRef-DOCUMENT",
+    "SPDXID must be SPDXRef-DOCUMENT"
+  );
+  require(doc.name, "DocumentName is required");
+  require(
+    /^[a-z][a-z0-9+.-]*:\/\/[^#\s]+$/i.test(doc.documentNamespace),
+    "DocumentNamespace must be a URI without a # part"
+  );
+  require(
+    doc.creationInfo.creators.length > 0 &&
+      doc.creationInfo.creators.every((creator) =>
+        /^(?:Tool|Organization|Person): \S/.test(creator)
+      ),
+    "Creator must name at least one Tool, Organization or Person"
+  );
+  require(
+    /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ$/.test(doc.creationInfo.created),
+    "Created must be a UTC time such as 2026-01-31T12:00:00Z"
+  );
+
+  const ids = new Set<string>(["SPDXRef-DOCUMENT"]);
+  const identify = (id: string, what: string) => {
+    require(SPDX_ID.test(id), `${what}: invalid SPDXID "${id}"`);
+    require(!ids.has(id), `${what}: duplicate SPDXID "${id}"`);
+    ids.add(id);
+  };
+
+  for (const pkg of doc.packages) {
+    const what = `package "${pkg.name}"`;
+    require(pkg.name, "PackageName is required");
+    identify(pkg.SPDXID, what);
+    require(
+      pkg.downloadLocation === NONE ||
+        pkg.downloadLocation === NOASSERTION ||
+        /^(?:[a-z]+\+)?[a-z]+:\/\/\S+$/i.test(pkg.downloadLocation),
+      `${what}: PackageDownloadLocation must be a URL, NONE or NOASSERTION`
+    );
+    require(
+      !pkg.filesAnalyzed ||
+        /^[0-9a-f]{40}$/.test(
+          pkg.packageVerificationCode?.packageVerificationCodeValue ?? ""
+        ),
+      `${what}: PackageVerificationCode is required when FilesAnalyzed is true`
+    );
+    for (const [field, value] of [
+      ["PackageLicenseConcluded", pkg.licenseConcluded],
+      ["PackageLicenseDeclared", pkg.licenseDeclared],
+      ...(pkg.licenseInfoFromFiles ?? []).map((license) => [
+        "PackageLicenseInfoFromFiles",
+        license,
+      ]),
+    ]) {
+      require(validLicense(value), `${what}: invalid ${field} "${value}"`);
+    }
+    require(pkg.copyrightText, `${what}: PackageCopyrightText is required`);
+  }
+
+  for (const file of doc.files) {
+    const what = `file "${file.fileName}"`;
+    require(
+      file.fileName.startsWith("./"),
+      `${what}: FileName must start with "./"`
+    );
+    identify(file.SPDXID, what);
+    const sha1 = file.checksums.find((sum) => sum.algorithm === "SHA1");
+    require(
+      sha1 && /^[0-9a-f]{40}$/.test(sha1.checksumValue),
+      `${what}: a SHA1 FileChecksum is required`
+    );
+    for (const license of [file.licenseConcluded, ...file.licenseInfoInFiles]) {
+      require(validLicense(license), `${what}: invalid license "${license}"`);
+    }
+    require(file.copyrightText, `${what}: FileCopyrightText is required`);
+  }
+
+  require(
+    doc.relationships.some(
+      (rel) =>
+        rel.spdxElementId === "SPDXRef-DOCUMENT" &&
+        rel.relationshipType === "DESCRIBES"
+    ),
+    "the document must DESCRIBE at least one package"
+  );
+  for (const rel of doc.relationships) {
+    for (const id of [rel.spdxElementId, rel.relatedSpdxElement]) {
+      require(ids.has(id), `Relationship refers to unknown SPDXID "${id}"`);
+    }
+  }
+
+  return problems;
+}
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+/** Free text goes between <text> tags; NONE and NOASSERTION don't. */
+function text(value: string): string {
+  return value === NONE || value === NOASSERTION
+    ? value
+    : `<text>${value}</text>`;
+}
+
+function formatPackage(pkg: SpdxPackage): string[] {
+  return [
+    `##### Package: ${pkg.name}`,
+    "",
+    `PackageName: ${pkg.name}`,
+    `SPDXID: ${pkg.SPDXID}`,
+    ...(pkg.versionInfo ? [`PackageVersion: ${pkg.versionInfo}`] : []),
+    `PackageDownloadLocation: ${pkg.downloadLocation}`,
+    `FilesAnalyzed: ${pkg.filesAnalyzed}`,
+    ...(pkg.packageVerificationCode
+      ? [
+          `PackageVerificationCode: ${pkg.packageVerificationCode.packageVerificationCodeValue}`,
+        ]
+      : []),
+    `PackageLicenseConcluded: ${pkg.licenseConcluded}`,
+    ...(pkg.licenseInfoFromFiles ?? []).map(
+      (license) => `PackageLicenseInfoFromFiles: ${license}`
+    ),
+    `PackageLicenseDeclared: ${pkg.licenseDeclared}`,
+    `PackageCopyrightText: ${text(pkg.copyrightText)}`,
+    ...(pkg.externalRefs ?? []).map(
+      (ref) =>
+        `ExternalRef: ${ref.referenceCategory} ${ref.referenceType} ${ref.referenceLocator}`
+    ),
+    "",
+  ];
+}
+
+function formatFile(file: SpdxFile): string[] {
+  return [
+    `FileName: ${file.fileName}`,
+    `SPDXID: ${file.SPDXID}`,
+    ...file.checksums.map(
+      (sum) => `FileChecksum: ${sum.algorithm}: ${sum.checksumValue}`
+    ),
+    `LicenseConcluded: ${file.licenseConcluded}`,
+    ...file.licenseInfoInFiles.map(
+      (license) => `LicenseInfoInFile: ${license}`
+    ),
+    `FileCopyrightText: ${text(file.copyrightText)}`,
+    "",
+  ];
+}
+
+/**
+ * The document in SPDX tag-value format. The project's files follow its
+ * package, as tag-value reads files as part of the package before them, and
+ * the dependencies come after.
+ */
+function formatTagValue(doc: SpdxDocument): string {
+  const [root, ...dependencies] = doc.packages;
+  const lines = [
+    `SPDXVersion: ${doc.spdxVersion}`,
+    `DataLicense: ${doc.dataLicense}`,
+    `SPDXID: ${doc.SPDXID}`,
+    `DocumentName: ${doc.name}`,
+    `DocumentNamespace: ${doc.documentNamespace}`,
+    ...doc.creationInfo.creators.map((creator) => `Creator: ${creator}`),
+    `Created: ${doc.creationInfo.created}`,
+    "",
+    ...formatPackage(root),
+    ...doc.files.flatMap(formatFile),
+    ...dependencies.flatMap(formatPackage),
+    "##### Relationships",
+    "",
+    ...doc.relationships.map(
+      (rel) =>
+        `Relationship: ${rel.spdxElementId} ${rel.relationshipType} ${rel.relatedSpdxElement}`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export function formatSbom(doc: SpdxDocument, format: SbomFormat): string {
+  return format === "json"
+    ? JSON.stringify(doc, null, 2) + "\n"
+    : formatTagValue(doc);
+}
+
+/** The format an output file's extension asks for: JSON for ".json". */
+export function sbomFormatFor(file: string): SbomFormat {
+  return /\.json$/i.test(file) ? "json" : "tag-value";
+}
+
+/** The default output file for a format. */
+export function sbomFileName(format: SbomFormat): string {
+  return format === "json" ? "sbom.spdx.json" : "sbom.spdx";
+}
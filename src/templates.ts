@@ -0,0 +1,243 @@
+// ── Custom Templates ────────────────────────────────────────────────────────
+//
+// Organization-specific licenses loaded from `<id>.txt` files: a front-matter
+// block with metadata, then the license text with placeholders.
+//
+//   ---
+//   spdx: LicenseRef-Acme-Source-Available
+//   name: Acme Source-Available License
+//   osi: false
+//   fsf: false
+//   copyleft: none
+//   permissions: commercial-use, modifications, private-use
+//   conditions: include-copyright
+//   limitations: liability, warranty
+//   ---
+//   Copyright (c) {{year}} {{holder}}
+//   ...
+
+import * as fs from "fs";
+import * as path from "path";
+import { TemplateError } from "./errors";
+import { Holder } from "./holders";
+import {
+  CONDITIONS,
+  COPYLEFT,
+  LICENSES,
+  LICENSE_ALIASES,
+  LIMITATIONS,
+  LicenseInfo,
+  PERMISSIONS,
+} from "./licenses";
+
+const TEMPLATE_EXT = ".txt";
+
+const PLACEHOLDER = /\{\{\s*([\w-]*)\s*\}\}/g;
+
+/** Placeholders filled once per holder; their lines repeat for each. */
+const PLACEHOLDERS: Record<string, (holder: Holder) => string> = {
+  year: (holder) => holder.years,
+  holder: (holder) => holder.name,
+};
+
+const META_KEYS = [
+  "spdx",
+  "name",
+  "osi",
+  "fsf",
+  "url",
+  "copyleft",
+  "permissions",
+  "conditions",
+  "limitations",
+];
+
+/** A listed SPDX identifier, or a LicenseRef- for licenses SPDX doesn't list. */
+const SPDX_ID = /^(?:LicenseRef-[A-Za-z0-9.-]+|[A-Za-z0-9][A-Za-z0-9.+-]*)$/;
+
+function parseFrontMatter(
+  source: string,
+  file: string
+): { meta: Record<string, string>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(source);
+  if (!match) {
+    throw new TemplateError(file, 'missing "---" metadata block at the top');
+  }
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const field = /^\s*([\w-]+)\s*:\s*(.*?)\s*$/.exec(line);
+    if (!field) throw new TemplateError(file, `invalid metadata line "${line}"`);
+
+    const key = field[1].toLowerCase();
+    if (!META_KEYS.includes(key)) {
+      throw new TemplateError(
+        file,
+        `unknown metadata key "${key}" (expected ${META_KEYS.join(", ")})`
+      );
+    }
+    meta[key] = field[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+
+  return { meta, body: source.substring(match[0].length) };
+}
+
+/** Reject placeholders we don't know how to fill before anything renders. */
+function checkPlaceholders(body: string, file: string): void {
+  const unknown = new Set<string>();
+  for (const [token, name] of body.matchAll(PLACEHOLDER)) {
+    if (!PLACEHOLDERS[name.toLowerCase()]) unknown.add(token);
+  }
+  if (unknown.size > 0) {
+    const expected = Object.keys(PLACEHOLDERS).map((name) => `{{${name}}}`);
+    throw new TemplateError(
+      file,
+      `unknown placeholder ${[...unknown].join(", ")} (expected ${expected.join(", ")})`
+    );
+  }
+}
+
+/**
+ * Fill a template body. Each line holding a placeholder is written once per
+ * holder, so "Copyright (c) {{year}} {{holder}}" yields one line per holder.
+ */
+function fillTemplate(body: string, holders: Holder[]): string {
+  return body
+    .split("\n")
+    .flatMap((line) => {
+      if (line.search(PLACEHOLDER) === -1) return [line];
+      return holders.map((holder) =>
+        line.replace(PLACEHOLDER, (_, name: string) =>
+          PLACEHOLDERS[name.toLowerCase()](holder)
+        )
+      );
+    })
+    .join("\n");
+}
+
+/** Parse a comma-separated metadata list, allowing only `allowed` values. */
+function metaList<T extends string>(
+  meta: Record<string, string>,
+  key: string,
+  allowed: T[],
+  file: string
+): T[] {
+  const values = (meta[key] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  for (const value of values) {
+    if (!allowed.includes(value as T)) {
+      throw new TemplateError(
+        file,
+        `unknown ${key} value "${value}" (expected ${allowed.join(", ")})`
+      );
+    }
+  }
+  return values as T[];
+}
+
+/** Parse one template file into a catalog entry. */
+export function parseTemplate(source: string, file: string): LicenseInfo {
+  const { meta, body } = parseFrontMatter(source.replace(/^\uFEFF/, ""), file);
+
+  for (const key of ["spdx", "name"]) {
+    if (!meta[key]) throw new TemplateError(file, `missing "${key}" metadata`);
+  }
+  if (!SPDX_ID.test(meta.spdx)) {
+    throw new TemplateError(
+      file,
+      `"${meta.spdx}" is not a valid SPDX identifier (use LicenseRef-<name> for custom licenses)`
+    );
+  }
+  // Headers and manifests that name a shared SPDX ID would be ambiguous;
+  // built-ins never use LicenseRef-, so a variant can take one of those
+  const builtIn = Object.values(LICENSES).find(
+    (info) => info.spdx.toLowerCase() === meta.spdx.toLowerCase()
+  );
+  if (builtIn) {
+    throw new TemplateError(
+      file,
+      `"${meta.spdx}" is the SPDX identifier of the built-in ${builtIn.name} (use LicenseRef-<name> for a variant)`
+    );
+  }
+  for (const key of ["osi", "fsf"]) {
+    if (meta[key] !== undefined && !/^(true|false)$/i.test(meta[key])) {
+      throw new TemplateError(file, `"${key}" must be true or false`);
+    }
+  }
+  const copyleft = meta.copyleft ?? "none";
+  if (!COPYLEFT.includes(copyleft as LicenseInfo["copyleft"])) {
+    throw new TemplateError(
+      file,
+      `"copyleft" must be one of ${COPYLEFT.join(", ")}`
+    );
+  }
+  if (!body.trim()) throw new TemplateError(file, "license text is empty");
+
+  checkPlaceholders(body, file);
+
+  return {
+    name: meta.name,
+    spdx: meta.spdx,
+    osiApproved: meta.osi?.toLowerCase() === "true",
+    fsfLibre: meta.fsf?.toLowerCase() === "true",
+    url: meta.url ?? "",
+    copyleft: copyleft as LicenseInfo["copyleft"],
+    permissions: metaList(meta, "permissions", PERMISSIONS, file),
+    conditions: metaList(meta, "conditions", CONDITIONS, file),
+    limitations: metaList(meta, "limitations", LIMITATIONS, file),
+    template: (holders) => {
+      if (holders.length === 0) {
+        throw new TemplateError(file, "no copyright holder to fill in");
+      }
+      return fillTemplate(body, holders);
+    },
+  };
+}
+
+/**
+ * Load every `<id>.txt` template in `dirs` (relative to `cwd`). The file name
+ * becomes the license ID; it may not shadow a built-in or another template,
+ * and neither may its `spdx`.
+ */
+export function loadTemplates(
+  dirs: string[],
+  cwd = process.cwd()
+): Record<string, LicenseInfo> {
+  const templates: Record<string, LicenseInfo> = {};
+  const origins: Record<string, string> = {};
+
+  for (const dir of dirs) {
+    const fullDir = path.resolve(cwd, dir);
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(fullDir, { withFileTypes: true });
+    } catch {
+      throw new TemplateError(dir, "template directory not found");
+    }
+
+    const files = entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(TEMPLATE_EXT))
+      .map((entry) => entry.name)
+      .sort();
+
+    for (const name of files) {
+      const file = path.join(dir, name);
+      const id = name.slice(0, -TEMPLATE_EXT.length).toLowerCase();
+      if (LICENSES[id] || LICENSE_ALIASES[id]) {
+        throw new TemplateError(file, `"${id}" is a built-in license ID`);
+      }
+      if (origins[id]) {
+        throw new TemplateError(file, `"${id}" is already defined by ${origins[id]}`);
+      }
+
+      const source = fs.readFileSync(path.join(fullDir, name), "utf-8");
+      templates[id] = parseTemplate(source, file);
+      origins[id] = file;
+    }
+  }
+
+  return templates;
+}
@@ -0,0 +1,116 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LICENSES } from "../dist/licenses.js";
+import { auditLicenses } from "../dist/audit.js";
+
+let root;
+
+const HOLDER = { name: "Acme Corp", years: "2024" };
+
+/** A fresh project directory holding `files`. */
+const project = (files) => {
+  const dir = fs.mkdtempSync(path.join(root, "project-"));
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+  }
+  return dir;
+};
+
+/** Each finding as "source: message". */
+const report = (result) =>
+  result.findings.map((finding) => `${finding.source}: ${finding.message}`);
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-audit-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("everything agreeing with the LICENSE file passes", () => {
+  const dir = project({
+    LICENSE: LICENSES.mit.template([HOLDER]),
+    "package.json": { name: "demo", license: "mit" },
+    "README.md": "# Demo\n\n## License\n\nMIT License\n\n## Other\n\nGPL\n",
+    "src/a.js": "// SPDX-License-Identifier: MIT\n",
+  });
+  const result = auditLicenses(dir);
+  assert.equal(result.expected, "MIT");
+  assert.equal(result.basis, "license-file");
+  assert.equal(result.mismatches, 0);
+  assert.deepEqual(report(result), [
+    "license-file: MIT matches",
+    "package.json: MIT matches",
+    "readme: MIT matches",
+    "headers: 1 file with MIT",
+  ]);
+});
+
+test("every source that disagrees is reported", () => {
+  const dir = project({
+    LICENSE: LICENSES.mit.template([HOLDER]),
+    "package.json": { name: "demo", license: "ISC" },
+    "README.md": "License\n=======\n\nApache License 2.0\n",
+    "src/a.js": "// SPDX-License-Identifier: GPL-3.0\n",
+  });
+  const result = auditLicenses(dir);
+  assert.equal(result.mismatches, 3);
+  assert.deepEqual(report(result), [
+    "license-file: MIT matches",
+    "package.json: ISC, expected MIT",
+    "readme: names Apache-2.0, expected MIT",
+    "headers: 1 file with GPL-3.0-only, expected MIT",
+  ]);
+});
+
+test("a given license is the basis, and fix rewrites package.json", () => {
+  const dir = project({
+    "package.json": { name: "demo", version: "1.0.0", license: "ISC" },
+  });
+  const result = auditLicenses(dir, { expected: "apache-2.0", fix: true });
+  assert.equal(result.basis, "given");
+  assert.equal(result.mismatches, 1);
+  assert.deepEqual(report(result), [
+    "license-file: no LICENSE file found",
+    "package.json: ISC, expected Apache-2.0 (set to Apache-2.0)",
+  ]);
+  assert.equal(
+    JSON.parse(fs.readFileSync(path.join(dir, "package.json"), "utf-8"))
+      .license,
+    "Apache-2.0"
+  );
+});
+
+test("each license of an expression may have its own file", () => {
+  const dir = project({
+    "LICENSE-MIT": LICENSES.mit.template([HOLDER]),
+    "LICENSE-APACHE": LICENSES["apache-2.0"].template([HOLDER]),
+    "package.json": { license: "(Apache-2.0 OR MIT)" },
+  });
+  const result = auditLicenses(dir, { expected: "MIT OR Apache-2.0" });
+  assert.equal(result.mismatches, 0);
+});
+
+test("package.json alone, or pointing at a file, is understood", () => {
+  const alone = auditLicenses(project({ "package.json": { license: "isc" } }));
+  assert.equal(alone.expected, "ISC");
+  assert.equal(alone.basis, "package.json");
+
+  const pointing = auditLicenses(
+    project({
+      LICENSE: LICENSES.mit.template([HOLDER]),
+      "package.json": { license: "SEE LICENSE IN LICENSE" },
+    })
+  );
+  assert.deepEqual(report(pointing), [
+    "license-file: MIT matches",
+    "package.json: points to LICENSE",
+  ]);
+});
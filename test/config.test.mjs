@@ -0,0 +1,95 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ConfigError } from "../dist/errors.js";
+import { loadConfig } from "../dist/config.js";
+
+let root;
+
+/** A fresh project directory holding `files`. */
+const project = (files) => {
+  const dir = fs.mkdtempSync(path.join(root, "project-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(
+      path.join(dir, name),
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+  }
+  return dir;
+};
+
+const rejects = (config, message) =>
+  assert.throws(
+    () => loadConfig(project({ ".licensegenrc": config })),
+    (err) => err instanceof ConfigError && message.test(err.message)
+  );
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-config-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test(".licensegenrc wins over package.json#licenseGen", () => {
+  const dir = project({
+    ".licensegenrc": { license: "apache-2.0" },
+    "package.json": { name: "demo", licenseGen: { license: "mit" } },
+  });
+  assert.deepEqual(loadConfig(dir), {
+    config: { license: "apache-2.0" },
+    source: ".licensegenrc",
+  });
+});
+
+test("package.json#licenseGen is read when there is no rc file", () => {
+  const dir = project({
+    "package.json": { name: "demo", licenseGen: { holders: ["Acme"] } },
+  });
+  assert.deepEqual(loadConfig(dir), {
+    config: { holders: ["Acme"] },
+    source: "package.json#licenseGen",
+  });
+});
+
+test("no config, or an unreadable package.json, is not an error", () => {
+  assert.equal(loadConfig(project({})), null);
+  assert.equal(loadConfig(project({ "package.json": { name: "x" } })), null);
+  assert.equal(loadConfig(project({ "package.json": "{ nope" })), null);
+});
+
+test("lists take arrays or comma-separated strings", () => {
+  const dir = project({
+    ".licensegenrc.json": {
+      holders: "2019 Acme Corp, Jane Doe",
+      headers: "src/**/*.{ts,js}, bin/*",
+      exclude: ["dist/**"],
+      headerStyle: { ".tpl": "{# #}" },
+      updateManifest: true,
+    },
+  });
+  assert.deepEqual(loadConfig(dir).config, {
+    holders: ["2019 Acme Corp", "Jane Doe"],
+    headers: ["src/**/*.{ts,js}", "bin/*"],
+    exclude: ["dist/**"],
+    headerStyle: { ".tpl": "{# #}" },
+    updateManifest: true,
+  });
+});
+
+test("invalid config is an error naming the file", () => {
+  rejects("{ nope", /^\.licensegenrc: invalid JSON/);
+  rejects(["mit"], /config must be a JSON object/);
+  rejects({ licence: "mit" }, /unknown key "licence"/);
+  rejects({ license: "" }, /"license" must be a non-empty string/);
+  rejects({ holders: [1] }, /"holders" must be a string or an array/);
+  rejects({ reuse: "yes" }, /"reuse" must be true or false/);
+  rejects({ headerStyle: { ".tpl": " " } }, /"headerStyle" must map/);
+
+  const dir = project({ "package.json": { licenseGen: { year: 2020 } } });
+  assert.throws(() => loadConfig(dir), {
+    name: "ConfigError",
+    message: 'package.json#licenseGen: "year" must be a non-empty string',
+  });
+});
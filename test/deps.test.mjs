@@ -0,0 +1,131 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { inventoryDependencies, listDependencies } from "../dist/deps.js";
+
+let root;
+
+const write = (rel, content) => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+};
+const install = (name, license) =>
+  write(
+    `node_modules/${name}/package.json`,
+    JSON.stringify({ name, version: "1.0.0", license })
+  );
+const status = (report, name) =>
+  report.dependencies.find((dep) => dep.name === name).status;
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-deps-"));
+  install("classpath-lib", "GPL-2.0-only WITH Classpath-exception-2.0");
+  install("gcc-lib", "GPL-3.0-or-later WITH GCC-exception-3.1");
+  install("autoconf-lib", "GPL-3.0-or-later WITH Autoconf-exception-3.0");
+  install("gpl-lib", "GPL-3.0-only");
+  install("either-lib", "MIT OR GPL-3.0-only");
+  install("both-lib", "MIT AND GPL-3.0-only");
+  install("odd-lib", "LicenseRef-Odd");
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("exceptions that permit linking fit any project", () => {
+  const report = inventoryDependencies(root, "MIT");
+  assert.equal(status(report, "classpath-lib"), "compatible");
+  assert.equal(status(report, "gcc-lib"), "compatible");
+});
+
+test("an exception that doesn't permit linking counts as its license", () => {
+  const report = inventoryDependencies(root, "MIT");
+  const autoconf = report.dependencies.find(
+    (dep) => dep.name === "autoconf-lib"
+  );
+  assert.equal(autoconf.status, "incompatible");
+  assert.equal(
+    autoconf.reason,
+    "GPL-3.0-or-later can't be distributed under MIT"
+  );
+
+  const gpl = inventoryDependencies(root, "GPL-3.0-only");
+  assert.equal(status(gpl, "autoconf-lib"), "compatible");
+});
+
+test("OR fits if any license does, AND only if all do", () => {
+  const report = inventoryDependencies(root, "MIT");
+  assert.equal(status(report, "either-lib"), "compatible");
+  assert.equal(status(report, "both-lib"), "incompatible");
+  assert.equal(status(report, "gpl-lib"), "incompatible");
+  assert.equal(status(report, "odd-lib"), "unknown");
+  assert.equal(report.incompatible, 3);
+  assert.equal(report.unknown, 1);
+});
+
+test("without a lockfile, packages no dependency reaches are dev-only", () => {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-dev-"));
+  const pkg = (rel, fields) => {
+    const file = path.join(project, rel, "package.json");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ version: "1.0.0", ...fields }));
+  };
+  try {
+    pkg(".", {
+      dependencies: { app: "1" },
+      devDependencies: { tool: "1" },
+    });
+    pkg("node_modules/app", { name: "app", dependencies: { shared: "1" } });
+    // Resolved from app's own node_modules before the top-level one
+    pkg("node_modules/app/node_modules/shared", { name: "shared" });
+    pkg("node_modules/shared", { name: "shared" });
+    pkg("node_modules/tool", { name: "tool", dependencies: { helper: "1" } });
+    pkg("node_modules/helper", { name: "helper" });
+
+    const dev = Object.fromEntries(
+      listDependencies(project, { dev: true }).map((dep) => [dep.path, dep.dev])
+    );
+    assert.deepEqual(dev, {
+      "node_modules/app": false,
+      "node_modules/app/node_modules/shared": false,
+      "node_modules/helper": true,
+      "node_modules/shared": true,
+      "node_modules/tool": true,
+    });
+    assert.deepEqual(
+      listDependencies(project).map((dep) => dep.path),
+      ["node_modules/app", "node_modules/app/node_modules/shared"]
+    );
+  } finally {
+    fs.rmSync(project, { recursive: true, force: true });
+  }
+});
+
+test("the lockfile's devOptional packages are dev-only", () => {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-dev-"));
+  try {
+    fs.writeFileSync(
+      path.join(project, "package-lock.json"),
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { name: "project" },
+          "node_modules/app": { version: "1.0.0", license: "MIT" },
+          "node_modules/tool": { version: "1.0.0", license: "MIT", dev: true },
+          "node_modules/fsevents": {
+            version: "2.0.0",
+            license: "MIT",
+            devOptional: true,
+          },
+        },
+      })
+    );
+    assert.deepEqual(
+      listDependencies(project).map((dep) => dep.name),
+      ["app"]
+    );
+  } finally {
+    fs.rmSync(project, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,58 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LICENSES } from "../dist/licenses.js";
+import { detectLicenses } from "../dist/detect.js";
+
+let root;
+
+/** Write `text` as a license file and return what detect makes of it. */
+function detect(text) {
+  const file = path.join(root, "COPYING");
+  fs.writeFileSync(file, text);
+  const [match] = detectLicenses(file, LICENSES);
+  return match;
+}
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-detect-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("every template gives back the holder it was rendered for", () => {
+  const holder = { name: "Foo Bar", years: "2011" };
+  for (const [id, license] of Object.entries(LICENSES)) {
+    const text = license.template([holder]);
+    const match = detect(text);
+    assert.ok(match.id, id);
+    // Texts without a copyright line of their own give no holder back
+    const expected = /\b2011\b/.test(text) ? [holder] : [];
+    assert.deepEqual(match.holders, expected, id);
+  }
+});
+
+test("the holder in the GPL-2.0 appendix is found mid-line", () => {
+  const text = LICENSES["gpl-2.0-only"].template([
+    { name: "Foo Bar", years: "2011" },
+  ]);
+  assert.match(text, /what it does\. Copyright \(C\) 2011 Foo Bar/);
+  assert.deepEqual(detect(text).holders, [{ name: "Foo Bar", years: "2011" }]);
+});
+
+test("a closing abbreviation keeps its dot, a sentence's doesn't", () => {
+  const body = LICENSES.mit.template([]).replace(/^Copyright.*$/m, "");
+  const holders = (line) => detect(`${line}\n${body}`).holders;
+
+  assert.deepEqual(holders("Copyright (c) 2015-2019 Acme Inc."), [
+    { name: "Acme Inc.", years: "2015-2019" },
+  ]);
+  assert.deepEqual(holders("Copyright 2019 Acme Ltd. All rights reserved."), [
+    { name: "Acme Ltd.", years: "2019" },
+  ]);
+  assert.deepEqual(holders("Copyright (c) 2019 Jane Doe."), [
+    { name: "Jane Doe", years: "2019" },
+  ]);
+});
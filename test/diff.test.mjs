@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { unifiedDiff } from "../dist/diff.js";
+
+test("identical texts give no diff", () => {
+  assert.equal(unifiedDiff("a\nb\n", "a\nb\n", "f", "f"), "");
+});
+
+test("a new file diffs against /dev/null", () => {
+  assert.equal(
+    unifiedDiff("", "a\nb\n", null, "f"),
+    "--- /dev/null\n+++ b/f\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+  );
+});
+
+test("changed lines come with three lines of context", () => {
+  const before = "1\n2\n3\n4\n5\n6\n7\n8\n";
+  const after = "1\n2\n3\n4\nfive\n6\n7\n8\n";
+  assert.equal(
+    unifiedDiff(before, after, "f", "f"),
+    "--- a/f\n+++ b/f\n@@ -2,7 +2,7 @@\n 2\n 3\n 4\n-5\n+five\n 6\n 7\n 8\n"
+  );
+});
+
+test("a change to the trailing newline alone is shown", () => {
+  assert.equal(
+    unifiedDiff("a\nb", "a\nb\n", "f", "f"),
+    "--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n"
+  );
+  assert.equal(
+    unifiedDiff("a\n", "a", "f", "f"),
+    "--- a/f\n+++ b/f\n@@ -1,1 +1,1 @@\n-a\n+a\n\\ No newline at end of file\n"
+  );
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { expressionFiles, resolveExpression } from "../dist/expression.js";
+
+const HOLDERS = [{ name: "Fixture Holder", years: "2020" }];
+const files = (expression) =>
+  expressionFiles(resolveExpression(expression), HOLDERS).map(
+    (entry) => entry.file
+  );
+
+test("a single license is one file, exception included", () => {
+  const [file] = expressionFiles(
+    resolveExpression("GPL-2.0-or-later WITH Classpath-exception-2.0"),
+    HOLDERS
+  );
+  assert.equal(file.file, "LICENSE");
+  assert.match(file.content, /\n\nClass Path Exception\n/);
+});
+
+test("license files are named after the identifier's first part", () => {
+  assert.deepEqual(files("MIT OR Apache-2.0"), [
+    "LICENSE-MIT",
+    "LICENSE-APACHE",
+    "LICENSE",
+  ]);
+  assert.deepEqual(files("GPL-2.0-only OR GPL-3.0-only"), [
+    "LICENSE-GPL-2.0-ONLY",
+    "LICENSE-GPL-3.0-ONLY",
+    "LICENSE",
+  ]);
+});
+
+test("one license with and without an exception gets two files", () => {
+  const names = files(
+    "GPL-2.0-or-later WITH Classpath-exception-2.0 OR GPL-2.0-or-later"
+  );
+  assert.deepEqual(names, [
+    "LICENSE-GPL-2.0-OR-LATER-WITH-CLASSPATH-EXCEPTION-2.0",
+    "LICENSE-GPL-2.0-OR-LATER",
+    "LICENSE",
+  ]);
+});
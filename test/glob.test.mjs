@@ -0,0 +1,211 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  expandBraces,
+  glob,
+  globToRegExp,
+  splitTopLevel,
+} from "../dist/glob.js";
+
+const matches = (pattern, file, dot) => globToRegExp(pattern, dot).test(file);
+
+describe("patterns", () => {
+  test("braces expand to every alternative, nested ones included", () => {
+    assert.deepEqual(expandBraces("src/*.{ts,tsx}"), ["src/*.ts", "src/*.tsx"]);
+    assert.deepEqual(expandBraces("{a,{b,c}}.js"), ["a.js", "b.js", "c.js"]);
+    assert.deepEqual(expandBraces("{lib,src}/*.{js,ts}"), [
+      "lib/*.js",
+      "lib/*.ts",
+      "src/*.js",
+      "src/*.ts",
+    ]);
+  });
+
+  test("braces without a comma and escaped braces stay literal", () => {
+    assert.deepEqual(expandBraces("{x}.js"), ["{x}.js"]);
+    assert.ok(matches("{x}.js", "{x}.js"));
+    assert.deepEqual(expandBraces("\\{a,b}.js"), ["\\{a,b}.js"]);
+  });
+
+  test("lists split on commas outside braces and classes", () => {
+    assert.deepEqual(splitTopLevel("src/*.{ts,tsx},lib/*.js", ","), [
+      "src/*.{ts,tsx}",
+      "lib/*.js",
+    ]);
+    assert.deepEqual(splitTopLevel("[,]*.txt,a", ","), ["[,]*.txt", "a"]);
+  });
+
+  test("* and ? stay within one path segment", () => {
+    assert.ok(matches("src/*.ts", "src/index.ts"));
+    assert.ok(!matches("src/*.ts", "src/lib/index.ts"));
+    assert.ok(matches("src/?.ts", "src/a.ts"));
+    assert.ok(!matches("src/?.ts", "src/ab.ts"));
+  });
+
+  test("character classes, ranges and negation", () => {
+    assert.ok(matches("file[abc].txt", "fileb.txt"));
+    assert.ok(!matches("file[abc].txt", "filed.txt"));
+    assert.ok(matches("v[0-9].md", "v7.md"));
+    assert.ok(matches("[!a]*.js", "b.js"));
+    assert.ok(!matches("[!a]*.js", "a.js"));
+    assert.ok(matches("[^a]*.js", "b.js"));
+    assert.ok(matches("[]]x", "]x"));
+    assert.ok(matches("a[b", "a[b"));
+  });
+
+  test("POSIX classes", () => {
+    assert.ok(matches("v[[:digit:]].md", "v1.md"));
+    assert.ok(!matches("v[[:digit:]].md", "vx.md"));
+    assert.ok(matches("[[:upper:]]*.md", "README.md"));
+    assert.ok(!matches("[[:upper:]]*.md", "readme.md"));
+    assert.ok(matches("x[[:alpha:][:digit:]]", "x9"));
+    assert.ok(matches("x[[:xdigit:]]", "xF"));
+  });
+
+  test("** in the middle spans zero or more directories", () => {
+    const re = "src/**/index.ts";
+    assert.ok(matches(re, "src/index.ts"));
+    assert.ok(matches(re, "src/a/index.ts"));
+    assert.ok(matches(re, "src/a/b/c/index.ts"));
+    assert.ok(!matches(re, "lib/a/index.ts"));
+    assert.ok(!matches(re, "src/a/index.tsx"));
+    assert.ok(matches("a/**/b/**/c.js", "a/b/c.js"));
+    assert.ok(matches("a/**/b/**/c.js", "a/x/b/y/z/c.js"));
+  });
+
+  test("** at either end", () => {
+    assert.ok(matches("**/*.ts", "index.ts"));
+    assert.ok(matches("**/*.ts", "src/deep/index.ts"));
+    assert.ok(matches("src/**", "src/a/b.ts"));
+    assert.ok(!matches("src/**", "lib/a.ts"));
+  });
+
+  test("wildcards skip dotfiles unless dot is set", () => {
+    assert.ok(!matches("*", ".env"));
+    assert.ok(!matches("**/*.js", ".cache/x.js"));
+    assert.ok(!matches("src/?eslintrc", "src/.eslintrc"));
+    assert.ok(matches(".env", ".env"));
+    assert.ok(matches("*", ".env", true));
+    assert.ok(matches("**/*.js", ".cache/x.js", true));
+  });
+
+  test("leading ./ and / are ignored", () => {
+    assert.ok(matches("./src/*.ts", "src/a.ts"));
+    assert.ok(matches("/src/*.ts", "src/a.ts"));
+  });
+});
+
+describe("glob", () => {
+  let root;
+
+  const write = (rel, content = "") => {
+    const file = path.join(root, rel);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+  const found = (patterns, options) =>
+    glob(patterns, root, options).map((file) =>
+      path.relative(root, file).split(path.sep).join("/")
+    );
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-glob-"));
+    for (const file of [
+      "src/index.ts",
+      "src/types.d.ts",
+      "src/b/z.ts",
+      "src/b/a.ts",
+      "src/a/index.tsx",
+      "src/.hidden.ts",
+      ".config/tool.ts",
+      "node_modules/pkg/index.ts",
+      ".git/hooks/x.ts",
+      "build/out.ts",
+      "logs/app.log",
+      "logs/keep.log",
+      "docs/build",
+      "docs/notes.md",
+      "vendor/lib.ts",
+      "vendor/ours.ts",
+    ]) {
+      write(file);
+    }
+    write(".gitignore", "# generated\nbuild/\n*.log\n!keep.log\n");
+    write("vendor/.gitignore", "*\n!ours.ts\n!.gitignore\n");
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  test("returns sorted matches", () => {
+    const files = found(["src/**/*.{ts,tsx}"]);
+    assert.deepEqual(files, [
+      "src/a/index.tsx",
+      "src/b/a.ts",
+      "src/b/z.ts",
+      "src/index.ts",
+      "src/types.d.ts",
+    ]);
+  });
+
+  test("returns absolute paths", () => {
+    for (const file of glob(["src/*.ts"], root)) {
+      assert.ok(path.isAbsolute(file));
+    }
+  });
+
+  test("! patterns exclude matches, in any position", () => {
+    const files = found(["!**/*.d.ts", "src/*.ts"]);
+    assert.deepEqual(files, ["src/index.ts"]);
+    assert.deepEqual(found(["src/**/*.ts", "!src/b/**"]), [
+      "src/index.ts",
+      "src/types.d.ts",
+    ]);
+  });
+
+  test("only exclusions match nothing", () => {
+    assert.deepEqual(found(["!**/*.d.ts"]), []);
+  });
+
+  test("never walks node_modules or .git", () => {
+    const files = found(["**/*.ts"], { dot: true });
+    assert.ok(!files.some((file) => file.startsWith("node_modules/")));
+    assert.ok(!files.some((file) => file.startsWith(".git/")));
+  });
+
+  test("dotfiles and dot directories need dot", () => {
+    assert.ok(!found(["**/*.ts"]).includes("src/.hidden.ts"));
+    assert.ok(!found(["**/*.ts"]).includes(".config/tool.ts"));
+    const files = found(["**/*.ts"], { dot: true });
+    assert.ok(files.includes("src/.hidden.ts"));
+    assert.ok(files.includes(".config/tool.ts"));
+  });
+
+  test(".gitignore rules apply, negations included", () => {
+    const files = found(["**/*"]);
+    assert.ok(!files.includes("logs/app.log"));
+    assert.ok(files.includes("logs/keep.log"));
+  });
+
+  test("directory-only .gitignore rules skip directories, not files", () => {
+    const files = found(["**/*"]);
+    assert.ok(!files.includes("build/out.ts"));
+    assert.ok(files.includes("docs/build"));
+  });
+
+  test("nested .gitignore files apply below their directory", () => {
+    const files = found(["**/*.ts"]);
+    assert.ok(!files.includes("vendor/lib.ts"));
+    assert.ok(files.includes("vendor/ours.ts"));
+    assert.ok(files.includes("src/index.ts"));
+  });
+
+  test("gitignore: false keeps ignored files", () => {
+    const files = found(["**/*"], { gitignore: false });
+    assert.ok(files.includes("logs/app.log"));
+    assert.ok(files.includes("build/out.ts"));
+    assert.ok(files.includes("vendor/lib.ts"));
+  });
+});
@@ -0,0 +1,326 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  addSPDXHeaders,
+  checkSPDXHeaders,
+  commentStyleFor,
+  updateHeader,
+} from "../dist/headers.js";
+
+let root;
+
+const HOLDERS = [{ name: "Acme Corp", years: "2024" }];
+const write = (rel, content) => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+};
+const read = (rel) => fs.readFileSync(path.join(root, rel), "utf-8");
+const addHeader = (rel, content, options = {}) => {
+  write(rel, content);
+  addSPDXHeaders([rel], {
+    spdx: "MIT",
+    holders: HOLDERS,
+    cwd: root,
+    ...options,
+  });
+  return read(rel);
+};
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-headers-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("comment syntax comes from the extension, file name or shebang", () => {
+  assert.deepEqual(commentStyleFor("a.ts", ""), { line: "//" });
+  assert.deepEqual(commentStyleFor("A.PY", ""), { line: "#" });
+  assert.deepEqual(commentStyleFor("a.css", ""), { block: ["/*", "*/"] });
+  assert.deepEqual(commentStyleFor("Makefile", ""), { line: "#" });
+  assert.deepEqual(commentStyleFor("run", "#!/usr/bin/env python3\n"), {
+    line: "#",
+  });
+  assert.deepEqual(commentStyleFor("run", "#!/usr/bin/env -S node\n"), {
+    line: "//",
+  });
+  assert.equal(commentStyleFor("data.json", "{}"), null);
+  assert.equal(commentStyleFor("run", "#!/usr/bin/awk -f\n"), null);
+});
+
+test("PHP that opens with markup takes HTML comments", () => {
+  assert.deepEqual(commentStyleFor("a.php", "<?php echo 1;"), { line: "//" });
+  assert.deepEqual(commentStyleFor("a.php", "<p><?= $x ?></p>"), {
+    block: ["<!--", "-->"],
+  });
+});
+
+test("configured markers override the built-in syntax", () => {
+  const styles = { ".ts": "/* */", Justfile: "#" };
+  assert.deepEqual(commentStyleFor("a.ts", "", styles), {
+    block: ["/*", "*/"],
+  });
+  assert.deepEqual(commentStyleFor("Justfile", "", styles), { line: "#" });
+});
+
+test("the header goes above the code, after a blank line", () => {
+  assert.equal(
+    addHeader("plain.js", "export {};\n"),
+    [
+      "// SPDX-License-Identifier: MIT",
+      "// Copyright (c) 2024 Acme Corp",
+      "",
+      "export {};",
+      "",
+    ].join("\n")
+  );
+  assert.equal(
+    addHeader("page.html", "<p>hi</p>\n"),
+    [
+      "<!-- SPDX-License-Identifier: MIT -->",
+      "<!-- Copyright (c) 2024 Acme Corp -->",
+      "",
+      "<p>hi</p>",
+      "",
+    ].join("\n")
+  );
+});
+
+test("shebangs and encoding lines stay on top", () => {
+  assert.equal(
+    addHeader(
+      "tool.py",
+      "#!/usr/bin/env python3\n# -*- coding: utf-8 -*-\nx = 1\n"
+    ),
+    [
+      "#!/usr/bin/env python3",
+      "# -*- coding: utf-8 -*-",
+      "",
+      "# SPDX-License-Identifier: MIT",
+      "# Copyright (c) 2024 Acme Corp",
+      "",
+      "x = 1",
+      "",
+    ].join("\n")
+  );
+  // An encoding line further down is ordinary code
+  assert.match(
+    addHeader("late.py", "x = 1\n\n# coding: utf-8\n"),
+    /^# SPDX-License-Identifier: MIT\n/
+  );
+});
+
+test("XML declarations and 'use strict' stay on top", () => {
+  assert.equal(
+    addHeader("icon.svg", '<?xml version="1.0"?>\n<svg/>\n'),
+    [
+      '<?xml version="1.0"?>',
+      "",
+      "<!-- SPDX-License-Identifier: MIT -->",
+      "<!-- Copyright (c) 2024 Acme Corp -->",
+      "",
+      "<svg/>",
+      "",
+    ].join("\n")
+  );
+  assert.match(
+    addHeader("strict.js", '"use strict";\nmodule.exports = 1;\n'),
+    /^"use strict";\n\n\/\/ SPDX-License-Identifier: MIT\n/
+  );
+});
+
+test("CRLF files get CRLF headers", () => {
+  assert.equal(
+    addHeader("win.sh", "#!/bin/sh\r\necho hi\r\n"),
+    [
+      "#!/bin/sh",
+      "",
+      "# SPDX-License-Identifier: MIT",
+      "# Copyright (c) 2024 Acme Corp",
+      "",
+      "echo hi",
+      "",
+    ].join("\r\n")
+  );
+});
+
+test("files with a header or no comment syntax are left alone", () => {
+  const tagged = "// SPDX-License-Identifier: Apache-2.0\nexport {};\n";
+  assert.equal(addHeader("tagged.ts", tagged), tagged);
+
+  write("data.json", "{}\n");
+  const result = addSPDXHeaders(["data.json"], {
+    spdx: "MIT",
+    holders: HOLDERS,
+    cwd: root,
+  });
+  assert.deepEqual(result.unsupported, [path.join(root, "data.json")]);
+  assert.equal(read("data.json"), "{}\n");
+});
+
+test("dry runs report the change without writing it", () => {
+  write("dry.ts", "export {};\n");
+  const result = addSPDXHeaders(["dry.ts"], {
+    spdx: "MIT",
+    holders: HOLDERS,
+    cwd: root,
+    dryRun: true,
+  });
+  assert.equal(read("dry.ts"), "export {};\n");
+  assert.equal(result.changes[0].before, "export {};\n");
+  assert.match(result.changes[0].after, /^\/\/ SPDX-License-Identifier: MIT\n/);
+});
+
+test("check reports missing, mismatched and malformed headers", () => {
+  const tagged = (spdx, ...copyright) =>
+    [`SPDX-License-Identifier: ${spdx}`, ...copyright]
+      .map((line) => `// ${line}\n`)
+      .join("");
+  write("check/ok.ts", tagged("mit", "Copyright 2024 Acme"));
+  write("check/none.ts", "export {};\n");
+  write("check/other.ts", tagged("ISC", "Copyright (c) 2024 Acme"));
+  write("check/bare.ts", tagged("MIT"));
+  // Prose that isn't a notice doesn't count as one
+  write("check/odd.ts", tagged("MIT", "Copyright Acme, all years"));
+  const issues = Object.fromEntries(
+    checkSPDXHeaders(["check/*.ts"], "MIT", { cwd: root }).map((check) => [
+      path.basename(check.file),
+      check.messages,
+    ])
+  );
+  assert.deepEqual(issues, {
+    "bare.ts": ["missing copyright line"],
+    "none.ts": ["missing SPDX-License-Identifier"],
+    "odd.ts": ["missing copyright line"],
+    "ok.ts": [],
+    "other.ts": ["identifier is ISC, expected MIT"],
+  });
+});
+
+test("check reads a sidecar in place of the file it describes", () => {
+  write("sidecar/logo.png", "PNG");
+  write(
+    "sidecar/logo.png.license",
+    "SPDX-License-Identifier: MIT\nSPDX-FileCopyrightText: 2024 Acme\n"
+  );
+  write("sidecar/data.json", "{}\n");
+  const checks = checkSPDXHeaders(["sidecar/*"], "MIT", { cwd: root });
+  assert.deepEqual(
+    checks.map((check) => [
+      path.basename(check.file),
+      check.spdx,
+      check.unsupported,
+      check.issues,
+    ]),
+    [
+      ["data.json", null, true, []],
+      ["logo.png", "MIT", false, []],
+    ]
+  );
+});
+
+test("updating widens each holder's years and keeps other holders", () => {
+  const header = [
+    "/* SPDX-License-Identifier: Apache-2.0 */",
+    "/* Copyright (c) 2021-2023 Acme Corp */",
+    "/* Copyright 2019 Upstream Author */",
+    "",
+    "body {}",
+  ].join("\n");
+  assert.equal(
+    updateHeader(header, "MIT", [
+      { name: "acme corp", years: "2024" },
+      { name: "Jane Doe", years: "2022-2024" },
+    ]),
+    [
+      "/* SPDX-License-Identifier: MIT */",
+      "/* Copyright (c) 2021-2024 Acme Corp */",
+      "/* Copyright 2019 Upstream Author */",
+      "/* Copyright (c) 2022-2024 Jane Doe */",
+      "",
+      "body {}",
+    ].join("\n")
+  );
+});
+
+test("years only ever widen", () => {
+  const header = "# SPDX-License-Identifier: MIT\n# Copyright 2020 Acme\n";
+  const update = (years) =>
+    updateHeader(header, "MIT", [{ name: "Acme", years }]);
+  assert.equal(update("2020"), header);
+  assert.match(update("2018"), /# Copyright 2018-2020 Acme\n/);
+  assert.match(update("2019-2024"), /# Copyright 2019-2024 Acme\n/);
+  // Without a tag there is no header to update
+  const untagged = "# Copyright 2020 Acme\n";
+  assert.equal(updateHeader(untagged, "MIT", HOLDERS), untagged);
+});
+
+test("--update-headers rewrites headers and sidecars, CRLF kept", () => {
+  const lines = (eol, ...text) => text.map((line) => line + eol).join("");
+  write(
+    "update/win.ts",
+    lines(
+      "\r\n",
+      "// SPDX-License-Identifier: ISC",
+      "// Copyright 2020 Acme Corp"
+    )
+  );
+  write("update/logo.png", "PNG");
+  write(
+    "update/logo.png.license",
+    lines(
+      "\n",
+      "SPDX-License-Identifier: ISC",
+      "SPDX-FileCopyrightText: 2020 Acme Corp"
+    )
+  );
+  const result = addSPDXHeaders(["update/*"], {
+    spdx: "MIT",
+    holders: HOLDERS,
+    cwd: root,
+    update: true,
+    sidecars: true,
+  });
+  assert.deepEqual(result.updated.map((file) => path.basename(file)), [
+    "logo.png.license",
+    "win.ts",
+  ]);
+  assert.equal(
+    read("update/win.ts"),
+    lines(
+      "\r\n",
+      "// SPDX-License-Identifier: MIT",
+      "// Copyright 2020-2024 Acme Corp"
+    )
+  );
+  assert.equal(
+    read("update/logo.png.license"),
+    lines(
+      "\n",
+      "SPDX-License-Identifier: MIT",
+      "SPDX-FileCopyrightText: 2020-2024 Acme Corp"
+    )
+  );
+  assert.equal(read("update/logo.png"), "PNG");
+});
+
+test("--reuse gives files without comment syntax a sidecar", () => {
+  write("reuse/data.json", "{}\n");
+  const result = addSPDXHeaders(["reuse/*"], {
+    spdx: "MIT",
+    holders: HOLDERS,
+    cwd: root,
+    sidecars: true,
+  });
+  assert.deepEqual(result.sidecars, [
+    path.join(root, "reuse/data.json.license"),
+  ]);
+  assert.equal(read("reuse/data.json"), "{}\n");
+  assert.equal(
+    read("reuse/data.json.license"),
+    "SPDX-License-Identifier: MIT\nCopyright (c) 2024 Acme Corp\n"
+  );
+});
@@ -0,0 +1,160 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { LICENSES } from "../dist/licenses.js";
+import {
+  PLACEHOLDER_NAME,
+  detectName,
+  detectStartYear,
+  fileHolders,
+  parseHolders,
+  yearRange,
+} from "../dist/holders.js";
+
+let root;
+const env = { ...process.env };
+
+/** A fresh project directory holding `files`. */
+const project = (files = {}) => {
+  const dir = fs.mkdtempSync(path.join(root, "project-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+};
+
+/** Commit `files` to the repo in `dir` as of Jan 1 of `year`. */
+const commit = (dir, year, files) => {
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  const date = `${year}-01-01T12:00:00Z`;
+  const git = (...args) =>
+    execFileSync("git", args, {
+      cwd: dir,
+      stdio: "ignore",
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    });
+  git("add", "-A");
+  git("-c", "user.name=T", "-c", "user.email=t@test", "commit", "-qm", year);
+};
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-holders-"));
+  // Keep the machine's git identity out of name detection
+  process.env.GIT_CONFIG_GLOBAL = os.devNull;
+  process.env.GIT_CONFIG_NOSYSTEM = "1";
+});
+
+after(() => {
+  process.env = env;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("a holder spec may carry its own year or range", () => {
+  assert.deepEqual(
+    parseHolders(
+      [
+        "Acme Corp",
+        "2015-2018 Upstream Author",
+        "2019, Jane Doe",
+        " 2020 - 2022  Bob ",
+      ],
+      "2024"
+    ),
+    [
+      { name: "Acme Corp", years: "2024" },
+      { name: "Upstream Author", years: "2015-2018" },
+      { name: "Jane Doe", years: "2019" },
+      { name: "Bob", years: "2020-2022" },
+    ]
+  );
+  // A number that isn't a year is part of the name
+  assert.deepEqual(parseHolders(["3M Company"], "2024"), [
+    { name: "3M Company", years: "2024" },
+  ]);
+});
+
+test("year ranges collapse when they start and end together", () => {
+  assert.equal(yearRange(2019, 2026), "2019-2026");
+  assert.equal(yearRange(2026, 2026), "2026");
+  // A start in the future is only ever the current year
+  assert.equal(yearRange(2030, 2026), "2026");
+});
+
+test("each holder gets a copyright line of their own", () => {
+  const text = LICENSES.mit.template(
+    parseHolders(["2019-2026 Acme Corp", "Jane Doe"], "2024")
+  );
+  assert.match(
+    text,
+    /^Copyright \(c\) 2019-2026 Acme Corp\nCopyright \(c\) 2024 Jane Doe\n/m
+  );
+});
+
+test("without a git name, package.json's author is the holder", () => {
+  const named = (author) =>
+    detectName(project({ "package.json": JSON.stringify({ author }) }));
+  assert.equal(named("Jane Doe"), "Jane Doe");
+  assert.equal(named({ name: "Acme Corp", email: "a@b.test" }), "Acme Corp");
+  assert.equal(detectName(project()), PLACEHOLDER_NAME);
+  assert.equal(
+    detectName(project({ "package.json": "{ nope" })),
+    PLACEHOLDER_NAME
+  );
+});
+
+test("the start year is the first commit's", () => {
+  const dir = project({ "package.json": '{"copyright": "© 2010 Acme"}' });
+  // No history yet: package.json's copyright year stands in
+  assert.equal(detectStartYear(dir), 2010);
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+  assert.equal(detectStartYear(dir), 2010);
+
+  commit(dir, "2019", { "a.js": "a\n" });
+  commit(dir, "2022", { "b.js": "b\n" });
+  assert.equal(detectStartYear(dir), 2019);
+  assert.equal(detectStartYear(project()), null);
+});
+
+test("--file-years runs each file's range from its first commit", () => {
+  const dir = project();
+  assert.equal(fileHolders(["Acme"], dir), null);
+
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+  commit(dir, "2019", { "old.js": "old\n" });
+  commit(dir, "2022", { "new.js": "new\n", "old.js": "changed\n" });
+  fs.writeFileSync(path.join(dir, "draft.js"), "draft\n");
+
+  const current = new Date().getFullYear();
+  const holdersFor = fileHolders(["Acme", "2015 Upstream"], dir);
+  assert.deepEqual(holdersFor(path.join(dir, "old.js")), [
+    { name: "Acme", years: yearRange(2019, current) },
+    { name: "Upstream", years: "2015" },
+  ]);
+  assert.equal(
+    holdersFor(path.join(dir, "new.js"))[0].years,
+    yearRange(2022, current)
+  );
+  // Not committed yet
+  assert.equal(holdersFor(path.join(dir, "draft.js"))[0].years, `${current}`);
+});
+
+test("a shallow clone's history isn't trusted", () => {
+  const origin = project();
+  execFileSync("git", ["init", "-q"], { cwd: origin });
+  commit(origin, "2015", { "a.js": "a\n" });
+  commit(origin, "2020", { "b.js": "b\n" });
+
+  const clone = path.join(root, "shallow");
+  execFileSync(
+    "git",
+    ["clone", "-q", "--depth", "1", `file://${origin}`, clone],
+    { stdio: "ignore" }
+  );
+  assert.equal(detectStartYear(clone), null);
+  assert.equal(fileHolders(["Acme"], clone), null);
+});
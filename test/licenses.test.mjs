@@ -0,0 +1,107 @@
+// Compare each template that ships a full license text against the SPDX
+// License List reference text in fixtures/licenses. Line breaks and spacing
+// don't count, as in the SPDX matching guidelines; every word does.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, readdirSync } from "node:fs";
+import { LICENSES } from "../dist/licenses.js";
+
+const FIXTURES = new URL("fixtures/licenses/", import.meta.url);
+
+// A holder whose copyright line reads exactly like the license's placeholder
+const holder = (years, name) => ({ years, name });
+const GNU_V3 = holder("<year>", "<name of author>");
+const GPL_V2 = holder("yyyy", "name of author");
+const LGPL_V2 = holder("year", "name of author");
+const MIT = holder("<year>", "<copyright holders>");
+const MIT_0 = holder("<YEAR>", "<COPYRIGHT HOLDER>");
+const ANYONE = holder("2020", "Fixture Holder");
+
+// SPDX publishes one text for "-only" and "-or-later"; ours drops the "any
+// later version" clause from the notice of the "-only" variants
+const onlyVersion = (text) =>
+  text.replace(
+    /([,;]) either (version [\d.]+ of the License), or \(at your option\) any later version\./,
+    "$1 $2."
+  );
+
+const CASES = [
+  { id: "mit", fixture: "MIT", holder: MIT },
+  { id: "mit-0", fixture: "MIT-0", holder: MIT_0 },
+  { id: "gpl-3.0-or-later", fixture: "GPL-3.0-or-later", holder: GNU_V3 },
+  { id: "gpl-3.0-only", fixture: "GPL-3.0-or-later", holder: GNU_V3, only: true },
+  { id: "gpl-2.0-or-later", fixture: "GPL-2.0-or-later", holder: GPL_V2 },
+  { id: "gpl-2.0-only", fixture: "GPL-2.0-or-later", holder: GPL_V2, only: true },
+  { id: "lgpl-2.1-or-later", fixture: "LGPL-2.1-or-later", holder: LGPL_V2 },
+  { id: "lgpl-2.1-only", fixture: "LGPL-2.1-or-later", holder: LGPL_V2, only: true },
+  { id: "agpl-3.0-or-later", fixture: "AGPL-3.0-or-later", holder: GNU_V3 },
+  { id: "agpl-3.0-only", fixture: "AGPL-3.0-or-later", holder: GNU_V3, only: true },
+  // The embedded GPL appendix stays as published; the notice goes on top
+  {
+    id: "lgpl-3.0-or-later",
+    fixture: "LGPL-3.0-or-later",
+    holder: ANYONE,
+    notice: "Copyright (C) 2020  Fixture Holder",
+  },
+  {
+    id: "lgpl-3.0-only",
+    fixture: "LGPL-3.0-or-later",
+    holder: ANYONE,
+    notice: "Copyright (C) 2020  Fixture Holder",
+  },
+  // No copyright line in these texts
+  { id: "mpl-2.0", fixture: "MPL-2.0", holder: ANYONE },
+  { id: "epl-2.0", fixture: "EPL-2.0", holder: ANYONE },
+  { id: "artistic-2.0", fixture: "Artistic-2.0", holder: ANYONE },
+  { id: "eupl-1.2", fixture: "EUPL-1.2", holder: ANYONE },
+  { id: "cddl-1.0", fixture: "CDDL-1.0", holder: ANYONE },
+  { id: "cc-by-4.0", fixture: "CC-BY-4.0", holder: ANYONE },
+  { id: "cc-by-sa-4.0", fixture: "CC-BY-SA-4.0", holder: ANYONE },
+  { id: "bsl-1.0", fixture: "BSL-1.0", holder: ANYONE },
+  { id: "wtfpl", fixture: "WTFPL", holder: ANYONE },
+  { id: "blueoak-1.0.0", fixture: "BlueOak-1.0.0", holder: ANYONE },
+];
+
+const words = (text) => text.split(/\s+/).filter(Boolean);
+
+/** Where two texts part ways, with a few words of context, or null. */
+function firstDifference(actual, expected) {
+  const a = words(actual);
+  const b = words(expected);
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (i === a.length && i === b.length) return null;
+  const context = (list) => list.slice(Math.max(0, i - 8), i + 8).join(" ");
+  return `word ${i + 1}:\n  rendered:  ${context(a)}\n  reference: ${context(b)}`;
+}
+
+for (const { id, fixture, holder, only, notice } of CASES) {
+  test(`${id} renders the SPDX reference text`, () => {
+    let expected = readFileSync(new URL(`${fixture}.txt`, FIXTURES), "utf-8");
+    if (only) expected = onlyVersion(expected);
+    if (notice) expected = `${notice}\n\n${expected}`;
+
+    const rendered = LICENSES[id].template([holder]);
+    assert.equal(firstDifference(rendered, expected), null);
+  });
+}
+
+test("every fixture is compared", () => {
+  const used = new Set(CASES.map((c) => `${c.fixture}.txt`));
+  assert.deepEqual(
+    readdirSync(FIXTURES).filter((file) => !used.has(file)),
+    []
+  );
+});
+
+test("the copyright line carries each holder", () => {
+  const text = LICENSES["gpl-3.0-or-later"].template([
+    holder("2019-2026", "Acme Corp"),
+    holder("2015", "Upstream Author"),
+  ]);
+  assert.match(
+    text,
+    /\n( *)Copyright \(C\) 2019-2026  Acme Corp\n\1Copyright \(C\) 2015  Upstream Author\n/
+  );
+});
@@ -0,0 +1,202 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ManifestError } from "../dist/errors.js";
+import { updateManifest, updateManifests } from "../dist/manifests.js";
+
+let root;
+
+/** Write `rel` with `lines`, set its license, and return the new lines. */
+const update = (rel, lines, spdx = "MIT", eol = "\n") => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, lines.join(eol));
+  updateManifest(file, spdx);
+  return fs.readFileSync(file, "utf-8").split(eol);
+};
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-manifests-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("package.json keeps its key order and tab indentation", () => {
+  assert.deepEqual(
+    update("tabs/package.json", [
+      "{",
+      '\t"name": "demo",',
+      '\t"version": "1.0.0",',
+      '\t"scripts": {',
+      '\t\t"test": "node --test"',
+      "\t},",
+      '\t"licenses": [{ "type": "ISC" }]',
+      "}",
+      "",
+    ]),
+    [
+      "{",
+      '\t"name": "demo",',
+      '\t"version": "1.0.0",',
+      '\t"license": "MIT",',
+      '\t"scripts": {',
+      '\t\t"test": "node --test"',
+      "\t}",
+      "}",
+      "",
+    ]
+  );
+});
+
+test("an existing license key is replaced where it stands", () => {
+  assert.deepEqual(
+    update("order/package.json", [
+      "{",
+      '    "license": "ISC",',
+      '    "name": "demo",',
+      '    "version": "1.0.0"',
+      "}",
+    ]),
+    [
+      "{",
+      '    "license": "MIT",',
+      '    "name": "demo",',
+      '    "version": "1.0.0"',
+      "}",
+    ]
+  );
+});
+
+test("composer.json keeps CRLF line endings", () => {
+  assert.deepEqual(
+    update(
+      "crlf/composer.json",
+      ["{", '  "name": "acme/demo",', '  "description": "Demo"', "}", ""],
+      "GPL-3.0-or-later",
+      "\r\n"
+    ),
+    [
+      "{",
+      '  "name": "acme/demo",',
+      '  "description": "Demo",',
+      '  "license": "GPL-3.0-or-later"',
+      "}",
+      "",
+    ]
+  );
+});
+
+test("Cargo.toml swaps license-file for license, comments kept", () => {
+  assert.deepEqual(
+    update("cargo/Cargo.toml", [
+      "# The demo crate",
+      "[package]",
+      'name = "demo"',
+      'version = "0.1.0" # bumped by CI',
+      'license-file = "LICENSE"',
+      "",
+      "[dependencies]",
+      'serde = "1"',
+      "",
+    ]),
+    [
+      "# The demo crate",
+      "[package]",
+      'name = "demo"',
+      'version = "0.1.0" # bumped by CI',
+      'license = "MIT"',
+      "",
+      "[dependencies]",
+      'serde = "1"',
+      "",
+    ]
+  );
+});
+
+test("a workspace-inherited Cargo license is left alone", () => {
+  const lines = [
+    "[package]",
+    'name = "member"',
+    "license.workspace = true",
+    "",
+  ];
+  assert.deepEqual(update("member/Cargo.toml", lines), lines);
+});
+
+test("pyproject.toml rewrites the license line with its indentation", () => {
+  assert.deepEqual(
+    update("py/pyproject.toml", [
+      "[build-system]",
+      'requires = ["hatchling"]',
+      "",
+      "[project]",
+      'name = "demo"',
+      '  license = "ISC"',
+      'version = "1.0"',
+      "",
+    ]),
+    [
+      "[build-system]",
+      'requires = ["hatchling"]',
+      "",
+      "[project]",
+      'name = "demo"',
+      '  license = "MIT"',
+      'version = "1.0"',
+      "",
+    ]
+  );
+});
+
+test("poetry projects get the license under [tool.poetry]", () => {
+  assert.deepEqual(
+    update("poetry/pyproject.toml", [
+      "[tool.poetry]",
+      'name = "demo"',
+      'version = "1.0"',
+      "",
+      "[tool.poetry.dependencies]",
+      'python = "^3.11"',
+    ]),
+    [
+      "[tool.poetry]",
+      'name = "demo"',
+      'version = "1.0"',
+      'license = "MIT"',
+      "",
+      "[tool.poetry.dependencies]",
+      'python = "^3.11"',
+    ]
+  );
+});
+
+test("every manifest in a directory is updated, unchanged ones skipped", () => {
+  const dir = path.join(root, "all");
+  fs.mkdirSync(dir);
+  fs.writeFileSync(path.join(dir, "package.json"), '{"license": "MIT"}\n');
+  fs.writeFileSync(path.join(dir, "composer.json"), '{"name": "a/b"}\n');
+
+  const changes = updateManifests(dir, "MIT", true);
+  assert.deepEqual(
+    changes.map((change) => path.basename(change.file)),
+    ["composer.json"]
+  );
+  // A dry run leaves the file as it was
+  assert.equal(
+    fs.readFileSync(path.join(dir, "composer.json"), "utf-8"),
+    '{"name": "a/b"}\n'
+  );
+});
+
+test("a manifest that isn't a JSON object is an error", () => {
+  assert.throws(
+    () => update("bad/package.json", ["{ nope"]),
+    (err) => err instanceof ManifestError && /invalid JSON/.test(err.message)
+  );
+  assert.throws(
+    () => update("list/package.json", ["[]"]),
+    /expected a JSON object/
+  );
+});
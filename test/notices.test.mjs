@@ -0,0 +1,56 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LICENSES } from "../dist/licenses.js";
+import { loadTemplates } from "../dist/templates.js";
+import { collectNotices } from "../dist/notices.js";
+
+let root;
+
+const write = (rel, content) => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+};
+const manifest = (name, license) =>
+  JSON.stringify({ name, version: "1.0.0", license });
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-notices-"));
+  write(
+    "templates/acme.txt",
+    [
+      "---",
+      "spdx: LicenseRef-Acme",
+      "name: Acme License",
+      "---",
+      "Copyright (c) {{year}} {{holder}}",
+      "",
+      "Use it as {{holder}} allows.",
+      "",
+    ].join("\n")
+  );
+  // Neither package ships a license file, so the catalog text is used
+  write(
+    "node_modules/acme-lib/package.json",
+    manifest("acme-lib", "LicenseRef-Acme")
+  );
+  write("node_modules/pg-lib/package.json", manifest("pg-lib", "PostgreSQL"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("catalog texts are filled in for packages without a license file", () => {
+  const catalog = { ...LICENSES, ...loadTemplates(["templates"], root) };
+  const groups = collectNotices(root, { catalog });
+
+  const acme = groups.find((group) => group.license === "LicenseRef-Acme");
+  assert.equal(acme.text, "Use it as the copyright holder allows.\n");
+  assert.deepEqual(acme.packages[0].copyright, []);
+
+  const postgres = groups.find((group) => group.license === "PostgreSQL");
+  assert.match(postgres.text, /SHALL the copyright holder BE LIABLE/);
+  assert.doesNotMatch(postgres.text, /Copyright/);
+});
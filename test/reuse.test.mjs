@@ -0,0 +1,51 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LICENSES } from "../dist/licenses.js";
+import { fileInfo } from "../dist/reuse.js";
+
+let root;
+
+const HOLDER = { name: "Acme Corp", years: "2020" };
+const copyright = (rel, content) => {
+  fs.writeFileSync(path.join(root, rel), content);
+  return fileInfo(root, rel, []).copyright;
+};
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-reuse-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("copyright lines need a year and a holder, REUSE tags excepted", () => {
+  const content = [
+    "// SPDX-FileCopyrightText: Jane Doe",
+    "// Copyright 2021 Bob Smith. All rights reserved.",
+    "// Copyright holders and contributors may use this file freely.",
+    "// copyright notice",
+    "",
+  ].join("\n");
+  assert.deepEqual(copyright("a.js", content), [
+    "SPDX-FileCopyrightText: Jane Doe",
+    "Copyright 2021 Bob Smith. All rights reserved.",
+  ]);
+});
+
+test("a license file's own copyright lines and prose aren't notices", () => {
+  const apache = LICENSES["apache-2.0"].template([HOLDER]);
+  assert.deepEqual(copyright("LICENSE", apache), []);
+
+  const gpl = LICENSES["gpl-2.0-only"].template([HOLDER]);
+  assert.match(gpl, /Copyright \(C\) 1989, 1991 Free Software Foundation/);
+  assert.deepEqual(copyright("COPYING", gpl), []);
+});
+
+test("a license file's holder is kept", () => {
+  const mit = LICENSES.mit.template([HOLDER]);
+  assert.deepEqual(copyright("LICENSE-MIT", mit), [
+    "Copyright (c) 2020 Acme Corp",
+  ]);
+});
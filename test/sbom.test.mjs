@@ -0,0 +1,119 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LICENSES } from "../dist/licenses.js";
+import { renderSbom, validateSbom } from "../dist/index.js";
+
+let root;
+
+const CREATED = new Date("2026-01-31T12:00:00Z");
+const HOLDER = { name: "Acme Corp", years: "2020" };
+const write = (rel, content) => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+};
+const sbom = (options = {}) =>
+  renderSbom({ cwd: root, license: "MIT", created: CREATED, ...options })
+    .document;
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-sbom-"));
+  write("package.json", JSON.stringify({ name: "demo", version: "1.0.0" }));
+  write("index.js", "// SPDX-License-Identifier: MIT\n");
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("the package's copyright names the given holders", () => {
+  const [project] = sbom({ holders: ["2020 Acme Corp"] }).packages;
+  assert.equal(project.copyrightText, "Copyright (c) 2020 Acme Corp");
+});
+
+test("without a holder to name, the package's copyright is NOASSERTION", () => {
+  // No git user and no package.json author: detection falls back to a
+  // placeholder, which isn't anyone's copyright
+  const env = { ...process.env };
+  process.env.GIT_CONFIG_GLOBAL = os.devNull;
+  process.env.GIT_CONFIG_NOSYSTEM = "1";
+  try {
+    const [project] = sbom({ files: ["index.js"] }).packages;
+    assert.equal(project.copyrightText, "NOASSERTION");
+  } finally {
+    process.env = env;
+  }
+});
+
+test("a license text without a copyright in its header is NOASSERTION", () => {
+  const apache = LICENSES["apache-2.0"].template([HOLDER]);
+  write("LICENSE", apache);
+  write("LICENSES/Apache-2.0.txt", apache);
+  write("data.txt", "Nothing to see here\n");
+  const files = Object.fromEntries(
+    sbom({ holders: ["Acme Corp"] }).files.map((file) => [
+      file.fileName,
+      file.copyrightText,
+    ])
+  );
+  assert.equal(files["./LICENSE"], "NOASSERTION");
+  assert.equal(files["./LICENSES/Apache-2.0.txt"], "NOASSERTION");
+  assert.equal(files["./data.txt"], "NONE");
+});
+
+test("a complete document is valid, and the same each run", () => {
+  const render = () =>
+    renderSbom({
+      cwd: root,
+      license: "MIT",
+      created: CREATED,
+      files: ["index.js"],
+      holders: ["Acme Corp"],
+    });
+  const first = render();
+  assert.deepEqual(validateSbom(first.document), []);
+  assert.match(first.content, /^SPDXVersion: SPDX-2\.3$/m);
+  assert.match(first.content, /^Created: 2026-01-31T12:00:00Z$/m);
+  assert.equal(render().content, first.content);
+});
+
+test("validateSbom lists each missing or malformed required field", () => {
+  const valid = sbom({ files: ["index.js"], holders: ["Acme Corp"] });
+  const broken = structuredClone(valid);
+  broken.name = "";
+  broken.documentNamespace = "not a uri";
+  broken.creationInfo.creators = [];
+  broken.packages[0].copyrightText = "";
+  broken.packages[0].licenseDeclared = "MIT OR";
+  broken.files[0].fileName = "index.js";
+  broken.files[0].checksums = [];
+  broken.relationships = [];
+
+  assert.deepEqual(validateSbom(broken), [
+    "DocumentName is required",
+    "DocumentNamespace must be a URI without a # part",
+    "Creator must name at least one Tool, Organization or Person",
+    'package "demo": invalid PackageLicenseDeclared "MIT OR"',
+    'package "demo": PackageCopyrightText is required',
+    'file "index.js": FileName must start with "./"',
+    'file "index.js": a SHA1 FileChecksum is required',
+    "the document must DESCRIBE at least one package",
+  ]);
+});
+
+test("duplicate and dangling SPDXIDs are reported", () => {
+  const doc = sbom({ files: ["index.js"], holders: ["Acme Corp"] });
+  doc.files[0].SPDXID = doc.packages[0].SPDXID;
+  doc.relationships.push({
+    spdxElementId: doc.packages[0].SPDXID,
+    relationshipType: "DEPENDS_ON",
+    relatedSpdxElement: "SPDXRef-Package-missing",
+  });
+  assert.deepEqual(validateSbom(doc), [
+    `file "./index.js": duplicate SPDXID "${doc.packages[0].SPDXID}"`,
+    // The package's CONTAINS now points at the file's old ID
+    'Relationship refers to unknown SPDXID "SPDXRef-File-index.js"',
+    'Relationship refers to unknown SPDXID "SPDXRef-Package-missing"',
+  ]);
+});
@@ -0,0 +1,90 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TemplateError } from "../dist/errors.js";
+import { loadTemplates, parseTemplate } from "../dist/templates.js";
+
+let root;
+
+const template = (meta, body = "Copyright (c) {{year}} {{holder}}\n") =>
+  ["---", ...meta, "---", body].join("\n");
+const ACME = template(["spdx: LicenseRef-Acme", "name: Acme License"]);
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "license-gen-templates-"));
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test("each line with a placeholder is written once per holder", () => {
+  const info = parseTemplate(
+    template(
+      ["spdx: LicenseRef-Acme", "name: Acme License", "copyleft: weak"],
+      "Copyright (c) {{ year }} {{HOLDER}}\n\nUse it freely.\n"
+    ),
+    "acme.txt"
+  );
+  assert.equal(info.copyleft, "weak");
+  assert.equal(
+    info.template([
+      { years: "2020", name: "Acme Corp" },
+      { years: "2021-2024", name: "Jane Doe" },
+    ]),
+    [
+      "Copyright (c) 2020 Acme Corp",
+      "Copyright (c) 2021-2024 Jane Doe",
+      "",
+      "Use it freely.",
+      "",
+    ].join("\n")
+  );
+});
+
+test("bad metadata and unknown placeholders are rejected", () => {
+  const rejects = (source, message) =>
+    assert.throws(
+      () => parseTemplate(source, "bad.txt"),
+      (err) => err instanceof TemplateError && message.test(err.message)
+    );
+  rejects("Copyright (c) {{year}} {{holder}}\n", /missing "---"/);
+  rejects(template(["name: Acme License"]), /missing "spdx"/);
+  rejects(
+    template(["spdx: LicenseRef-Acme", "name: A", "osi: maybe"]),
+    /"osi" must be true or false/
+  );
+  rejects(
+    template(["spdx: LicenseRef-Acme", "name: A"], "{{year}} {{owner}}\n"),
+    /unknown placeholder \{\{owner\}\}/
+  );
+});
+
+test("a built-in's SPDX identifier needs a LicenseRef- of its own", () => {
+  assert.throws(
+    () => parseTemplate(template(["spdx: mit", "name: Our MIT"]), "ours.txt"),
+    /"mit" is the SPDX identifier of the built-in MIT License/
+  );
+  const info = parseTemplate(
+    template(["spdx: LicenseRef-MIT-Acme", "name: Our MIT"]),
+    "ours.txt"
+  );
+  assert.equal(info.spdx, "LicenseRef-MIT-Acme");
+});
+
+test("a template file may not shadow a built-in or another template", () => {
+  fs.mkdirSync(path.join(root, "a"));
+  fs.mkdirSync(path.join(root, "b"));
+  fs.writeFileSync(path.join(root, "a", "acme.txt"), ACME);
+  assert.deepEqual(Object.keys(loadTemplates(["a"], root)), ["acme"]);
+
+  fs.writeFileSync(path.join(root, "b", "ACME.txt"), ACME);
+  assert.throws(
+    () => loadTemplates(["a", "b"], root),
+    /"acme" is already defined by a[\\/]acme\.txt/
+  );
+  fs.rmSync(path.join(root, "b", "ACME.txt"));
+
+  fs.writeFileSync(path.join(root, "b", "mit.txt"), ACME);
+  assert.throws(() => loadTemplates(["b"], root), /"mit" is a built-in/);
+});